@@ -1,32 +1,25 @@
 'use client';
 
 import { useState } from 'react';
-import { BlackScholesInputs, BlackScholesResults, calculateBlackScholes, validateInputs } from '@/lib/utils/black-scholes';
+import { BlackScholesInputs, BlackScholesOutputs, calculateBlackScholes, defaultInputs, validateBlackScholesInputs } from '@/lib/utils/blackScholes';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 export default function Calculator() {
-  const [inputs, setInputs] = useState<BlackScholesInputs>({
-    stockPrice: 100,
-    strikePrice: 100,
-    timeToMaturity: 1,
-    volatility: 0.2,
-    riskFreeRate: 0.05,
-    optionType: 'call'
-  });
-
-  const [results, setResults] = useState<BlackScholesResults | null>(null);
+  const [inputs, setInputs] = useState<BlackScholesInputs>(defaultInputs);
+
+  const [results, setResults] = useState<BlackScholesOutputs | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setInputs(prev => ({
       ...prev,
-      [name]: name === 'optionType' ? value : parseFloat(value)
+      [name]: name === 'isCall' ? value === 'call' : parseFloat(value)
     }));
   };
 
   const handleCalculate = () => {
-    const validationError = validateInputs(inputs);
+    const validationError = validateBlackScholesInputs(inputs);
     if (validationError) {
       setError(validationError);
       setResults(null);
@@ -145,8 +138,8 @@ export default function Calculator() {
               <div>
                 <label className="block text-sm font-medium mb-1">Option Type</label>
                 <select
-                  name="optionType"
-                  value={inputs.optionType}
+                  name="isCall"
+                  value={inputs.isCall ? 'call' : 'put'}
                   onChange={handleInputChange}
                   className="w-full bg-gray-700 rounded px-3 py-2 text-white"
                 >
@@ -1,8 +1,14 @@
 'use client';
 
-import { useState } from 'react';
-import { Option, Portfolio, OptionGreeks } from '@/types/option';
-import { calculatePortfolioMetrics } from '@/lib/utils/blackScholes';
+import { useCallback, useMemo, useState } from 'react';
+import { FiniteDifferenceBoundary, Option, Portfolio, OptionGreeks, PricingModel, StressTestResults } from '@/types/option';
+import { calculatePortfolioMetrics, pricingModelLabels } from '@/lib/utils/pricingEngine';
+import { finiteDifferenceBoundaryLabels } from '@/lib/utils/finiteDifference';
+import { markToSurface } from '@/lib/utils/volatilitySurface';
+import { markToCurve } from '@/lib/utils/yieldCurve';
+import { markToValuationDate } from '@/lib/utils/dayCount';
+import { markToImpliedVolatility } from '@/lib/utils/impliedVolatility';
+import { usePricing } from '@/lib/hooks/usePricing';
 import FileUpload from '@/components/FileUpload';
 import PortfolioTable from '@/components/PortfolioTable';
 import StressTest from '@/components/StressTest';
@@ -10,44 +16,69 @@ import VisualizationPanel from '@/components/VisualizationPanel';
 import ExportPDFButton from '@/components/ExportPDFButton';
 import GreeksSurfaceViewer from '@/components/GreeksSurfaceViewer';
 import WhatIfPanel from '@/components/WhatIfPanel';
+import PnLAttribution from '@/components/PnLAttribution';
+import VolatilitySurfacePanel from '@/components/VolatilitySurfacePanel';
+import YieldCurvePanel from '@/components/YieldCurvePanel';
+import ValuationControls from '@/components/ValuationControls';
+import GreekConventionsControls from '@/components/GreekConventionsControls';
 
 export default function Home() {
-  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const { settings, updateSettings } = usePricing();
+  const [options, setOptions] = useState<Option[] | null>(null);
   const [whatIfPortfolio, setWhatIfPortfolio] = useState<Portfolio | null>(null);
+  const [whatIfDays, setWhatIfDays] = useState(0);
   const [selectedGreek, setSelectedGreek] = useState<keyof OptionGreeks>('delta');
-  const [stressTestResults, setStressTestResults] = useState<{
-    spotPriceChange: number;
-    volatilityChange: number;
-    rateChange: number;
-    stressedPortfolio: Portfolio;
-  } | null>(null);
-
-  const handlePortfolioLoad = (options: Option[]) => {
-    const newPortfolio = calculatePortfolioMetrics(options);
-    setPortfolio(newPortfolio);
+  const [stressTestResults, setStressTestResults] = useState<StressTestResults | null>(null);
+
+  // Dated expiries are counted from the valuation date first, then rates are
+  // marked to the curve and the surface's underlying to the surface, at its
+  // forward off the curve, and finally positions with market prices are
+  // implied under the current model. Only
+  // the settings these marks read re-run them, since implied volatility
+  // solves are slow under the lattice and grid models.
+  const { valuation, surfaceVolatility, yieldCurve, model, treeSteps, finiteDifference } = settings;
+  const marked = useMemo(() => {
+    if (!options) return null;
+    const dated = markToValuationDate(options, valuation);
+    const onCurve = yieldCurve ? markToCurve(dated, yieldCurve) : dated;
+    const onSurface = surfaceVolatility ? markToSurface(onCurve, surfaceVolatility) : onCurve;
+    return markToImpliedVolatility(onSurface, { model, treeSteps, finiteDifference });
+  }, [options, valuation, surfaceVolatility, yieldCurve, model, treeSteps, finiteDifference]);
+
+  // Reprice the whole book whenever the marked positions or the pricing settings change
+  const portfolio = useMemo(
+    () => marked && calculatePortfolioMetrics(marked, settings),
+    [marked, settings]
+  );
+
+  const handlePortfolioLoad = (newOptions: Option[]) => {
+    setOptions(newOptions);
     setWhatIfPortfolio(null);
     setStressTestResults(null);
   };
 
-  const handleStressTestComplete = (results: {
-    spotPriceChange: number;
-    volatilityChange: number;
-    rateChange: number;
-    stressedPortfolio: Portfolio;
-  }) => {
+  const handleStressTestComplete = (results: StressTestResults) => {
     setStressTestResults(results);
   };
 
-  const handleWhatIfChange = (newPortfolio: Portfolio) => {
+  const handleWhatIfChange = useCallback((newPortfolio: Portfolio, timeDecayDays: number) => {
     setWhatIfPortfolio(newPortfolio);
-  };
+    setWhatIfDays(timeDecayDays);
+  }, []);
 
   const greekOptions: { value: keyof OptionGreeks; label: string }[] = [
     { value: 'delta', label: 'Delta' },
     { value: 'gamma', label: 'Gamma' },
     { value: 'theta', label: 'Theta' },
     { value: 'vega', label: 'Vega' },
-    { value: 'rho', label: 'Rho' }
+    { value: 'rho', label: 'Rho' },
+    { value: 'rhoForeign', label: 'Foreign Rho' },
+    { value: 'vanna', label: 'Vanna' },
+    { value: 'volga', label: 'Volga' },
+    { value: 'charm', label: 'Charm' },
+    { value: 'speed', label: 'Speed' },
+    { value: 'color', label: 'Color' },
+    { value: 'zomma', label: 'Zomma' }
   ];
 
   return (
@@ -66,13 +97,95 @@ export default function Home() {
           <FileUpload onPortfolioLoad={handlePortfolioLoad} />
         ) : (
           <div className="space-y-6">
-            <div className="flex justify-end gap-4">
+            <div className="flex flex-wrap justify-end gap-4">
+              <ValuationControls />
+              <GreekConventionsControls />
+              <div className="flex items-center gap-2">
+                <label htmlFor="pricing-model" className="text-sm font-medium text-gray-700">
+                  Pricing Model
+                </label>
+                <select
+                  id="pricing-model"
+                  value={settings.model}
+                  onChange={(e) => updateSettings({ model: e.target.value as PricingModel })}
+                  className="px-3 py-2 border rounded-lg text-sm"
+                >
+                  {(Object.keys(pricingModelLabels) as PricingModel[]).map(model => (
+                    <option key={model} value={model}>
+                      {pricingModelLabels[model]}
+                    </option>
+                  ))}
+                </select>
+                {settings.model === 'binomialTree' && (
+                  <input
+                    type="number"
+                    min="10"
+                    max="2000"
+                    step="10"
+                    value={settings.treeSteps}
+                    onChange={(e) => {
+                      const steps = parseInt(e.target.value, 10);
+                      if (steps >= 10 && steps <= 2000) updateSettings({ treeSteps: steps });
+                    }}
+                    className="w-24 px-3 py-2 border rounded-lg text-sm"
+                    title="Binomial tree steps"
+                  />
+                )}
+                {settings.model === 'finiteDifference' && (
+                  <>
+                    <input
+                      type="number"
+                      min="20"
+                      max="2000"
+                      step="10"
+                      value={settings.finiteDifference.spotSteps}
+                      onChange={(e) => {
+                        const steps = parseInt(e.target.value, 10);
+                        if (steps >= 20 && steps <= 2000) {
+                          updateSettings({ finiteDifference: { ...settings.finiteDifference, spotSteps: steps } });
+                        }
+                      }}
+                      className="w-24 px-3 py-2 border rounded-lg text-sm"
+                      title="Spot grid steps"
+                    />
+                    <input
+                      type="number"
+                      min="10"
+                      max="2000"
+                      step="10"
+                      value={settings.finiteDifference.timeSteps}
+                      onChange={(e) => {
+                        const steps = parseInt(e.target.value, 10);
+                        if (steps >= 10 && steps <= 2000) {
+                          updateSettings({ finiteDifference: { ...settings.finiteDifference, timeSteps: steps } });
+                        }
+                      }}
+                      className="w-24 px-3 py-2 border rounded-lg text-sm"
+                      title="Time steps"
+                    />
+                    <select
+                      value={settings.finiteDifference.boundary}
+                      onChange={(e) => updateSettings({
+                        finiteDifference: { ...settings.finiteDifference, boundary: e.target.value as FiniteDifferenceBoundary }
+                      })}
+                      className="px-3 py-2 border rounded-lg text-sm"
+                      title="Boundary conditions"
+                    >
+                      {(Object.keys(finiteDifferenceBoundaryLabels) as FiniteDifferenceBoundary[]).map(boundary => (
+                        <option key={boundary} value={boundary}>
+                          {finiteDifferenceBoundaryLabels[boundary]}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
               <ExportPDFButton 
                 portfolio={whatIfPortfolio || portfolio}
                 stressTestResults={stressTestResults || undefined}
               />
               <button
-                onClick={() => setPortfolio(null)}
+                onClick={() => setOptions(null)}
                 className="px-6 py-2.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
               >
                 Upload New Portfolio
@@ -108,6 +221,18 @@ export default function Home() {
               </div>
             </div>
 
+            {/* The what-if scenario's change from the marked book, broken down by Greek */}
+            {whatIfPortfolio && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <h2 className="text-xl font-semibold mb-6">P&L Attribution</h2>
+                <PnLAttribution
+                  portfolio={whatIfPortfolio}
+                  previousPortfolio={portfolio}
+                  timeElapsed={whatIfDays}
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-1 2xl:grid-cols-2 gap-6">
               <div className="bg-white rounded-lg shadow p-6">
                 <VisualizationPanel portfolio={whatIfPortfolio || portfolio} />
@@ -125,6 +250,10 @@ export default function Home() {
               portfolio={whatIfPortfolio || portfolio}
               onStressTestComplete={handleStressTestComplete}
             />
+
+            <YieldCurvePanel portfolio={portfolio} />
+
+            <VolatilitySurfacePanel portfolio={portfolio} />
           </div>
         )}
       </div>
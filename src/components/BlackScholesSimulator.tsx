@@ -1,7 +1,23 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { BlackScholesInputs, BlackScholesOutputs, calculateBlackScholes, defaultInputs, validateInputs } from '@/lib/utils/black-scholes';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  BlackScholesInputs,
+  BlackScholesOutputs,
+  calculateBlackScholes,
+  defaultInputs,
+  simulatorToPricingInputs,
+  validateInputs
+} from '@/lib/utils/blackScholes';
+import {
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  europeanProduct,
+  GreekEstimator,
+  MonteCarloEstimate,
+  MonteCarloSettings,
+  simulateMonteCarlo
+} from '@/lib/utils/monteCarlo';
+import { lognormalToNormalVolatility } from '@/lib/utils/impliedVolatility';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -45,10 +61,58 @@ function Toggle({ checked, onChange }: { checked: boolean; onChange: (checked: b
   );
 }
 
+const PATH_COUNTS = [5000, 20000, 100000];
+
+const estimatorLabels: Record<GreekEstimator, string> = {
+  pathwise: 'pathwise',
+  likelihoodRatio: 'likelihood ratio',
+  pathwiseLikelihoodRatio: 'pathwise + LR'
+};
+
+// 95% interval of a Monte Carlo estimate drawn as an error bar, with the
+// closed-form value marked so a miss is visible at a glance
+function ErrorBar({ estimate, exact }: { estimate: MonteCarloEstimate; exact: number }) {
+  const halfWidth = 1.96 * estimate.standardError;
+  const low = Math.min(estimate.value - halfWidth, exact);
+  const high = Math.max(estimate.value + halfWidth, exact);
+  const pad = (high - low) * 0.25 || Math.abs(exact) * 0.01 || 1;
+  const position = (value: number) => `${((value - low + pad) / (high - low + 2 * pad)) * 100}%`;
+
+  return (
+    <div className="relative h-4 w-full">
+      <div className="absolute top-1/2 h-px w-full bg-gray-200" />
+      <div
+        className="absolute top-1/2 h-0.5 -translate-y-1/2 bg-blue-500"
+        style={{ left: position(estimate.value - halfWidth), right: `calc(100% - ${position(estimate.value + halfWidth)})` }}
+      />
+      <div className="absolute top-0 h-4 w-px bg-blue-500" style={{ left: position(estimate.value - halfWidth) }} />
+      <div className="absolute top-0 h-4 w-px bg-blue-500" style={{ left: position(estimate.value + halfWidth) }} />
+      <div
+        className="absolute top-1/2 h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-blue-600"
+        style={{ left: position(estimate.value) }}
+      />
+      <div className="absolute top-0 h-4 w-0.5 -translate-x-1/2 bg-red-500" style={{ left: position(exact) }} />
+    </div>
+  );
+}
+
 export default function BlackScholesSimulator() {
   const [inputs, setInputs] = useState<BlackScholesInputs>(defaultInputs);
   const [outputs, setOutputs] = useState<BlackScholesOutputs | null>(null);
   const [selectedChart, setSelectedChart] = useState<'price' | 'greeks'>('price');
+  const [monteCarloSettings, setMonteCarloSettings] = useState<MonteCarloSettings>(DEFAULT_MONTE_CARLO_SETTINGS);
+
+  // Monte Carlo cross-check of the closed form, rerun with the same seed on every change
+  const monteCarlo = useMemo(() => {
+    const pricingInputs = simulatorToPricingInputs(inputs);
+    return simulateMonteCarlo(pricingInputs, europeanProduct(pricingInputs), monteCarloSettings);
+  }, [inputs, monteCarloSettings]);
+
+  // The Bachelier volatility that gives the same price
+  const normalVolatility = useMemo(
+    () => lognormalToNormalVolatility(simulatorToPricingInputs(inputs)),
+    [inputs]
+  );
 
   useEffect(() => {
     const results = calculateBlackScholes(inputs);
@@ -99,7 +163,7 @@ export default function BlackScholesSimulator() {
         labels: stockPrices.map(price => price.toFixed(2)),
         datasets: ['delta', 'gamma', 'theta', 'vega', 'rho'].map(greek => ({
           label: greek.charAt(0).toUpperCase() + greek.slice(1),
-          data: greeksData.map(data => data[greek as keyof typeof greeksData]),
+          data: greeksData.map(data => data[greek as keyof BlackScholesOutputs]),
           borderColor: greekColors[greek as keyof typeof greekColors],
           backgroundColor: greekColors[greek as keyof typeof greekColors].replace('rgb', 'rgba').replace(')', ', 0.5)'),
           tension: 0.1
@@ -152,15 +216,17 @@ export default function BlackScholesSimulator() {
                   </label>
                   <input
                     type="range"
-                    min={key === 'volatility' ? 0.01 : key === 'riskFreeRate' ? -0.1 : 1}
+                    min={key === 'volatility' ? 0.01 : key === 'riskFreeRate' ? -0.1 : key === 'dividendYield' ? 0 : 1}
                     max={
                       key === 'volatility' ? 2 :
                       key === 'riskFreeRate' ? 0.5 :
+                      key === 'dividendYield' ? 0.2 :
                       key === 'timeToMaturity' ? 10 :
                       key.includes('Price') ? inputs.stockPrice * 2 : 1
                     }
                     step={
                       key === 'volatility' || key === 'riskFreeRate' ? 0.01 :
+                      key === 'dividendYield' ? 0.005 :
                       key === 'timeToMaturity' ? 0.1 :
                       key.includes('Price') ? 1 : 0.1
                     }
@@ -223,6 +289,95 @@ export default function BlackScholesSimulator() {
                 <span className="font-medium">Rho: </span>
                 <span>{formatNumber(outputs.rho)}</span>
               </div>
+              <div className="col-span-2">
+                <span className="font-medium">Equivalent Normal Volatility: </span>
+                <span title={normalVolatility.message}>
+                  {normalVolatility.converged ? formatNumber(normalVolatility.volatility) : 'n/a'}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {outputs && (
+            <div className="mt-6 border-t pt-4">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <h3 className="text-lg font-semibold">Monte Carlo</h3>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+                  <select
+                    value={monteCarloSettings.paths}
+                    onChange={(e) => setMonteCarloSettings(prev => ({ ...prev, paths: parseInt(e.target.value) }))}
+                    className="px-2 py-1 border rounded-md text-sm"
+                  >
+                    {PATH_COUNTS.map(paths => (
+                      <option key={paths} value={paths}>{paths.toLocaleString()} paths</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-1">
+                    Seed
+                    <input
+                      type="number"
+                      value={monteCarloSettings.seed}
+                      onChange={(e) => {
+                        const seed = parseInt(e.target.value);
+                        if (!isNaN(seed)) setMonteCarloSettings(prev => ({ ...prev, seed }));
+                      }}
+                      className="w-20 px-2 py-1 border rounded-md text-sm"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={monteCarloSettings.antithetic}
+                      onChange={(e) => setMonteCarloSettings(prev => ({ ...prev, antithetic: e.target.checked }))}
+                    />
+                    Antithetic
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={monteCarloSettings.controlVariate}
+                      onChange={(e) => setMonteCarloSettings(prev => ({ ...prev, controlVariate: e.target.checked }))}
+                    />
+                    Control variate
+                  </label>
+                </div>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 font-medium"></th>
+                    <th className="py-1 font-medium">Closed form</th>
+                    <th className="py-1 font-medium">MC ± 95%</th>
+                    <th className="py-1 font-medium w-1/3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[
+                    { label: 'Price', exact: outputs.optionPrice, estimate: monteCarlo.price, estimator: null },
+                    ...(['delta', 'gamma', 'vega', 'rho'] as const).map(greek => ({
+                      label: greek.charAt(0).toUpperCase() + greek.slice(1),
+                      exact: outputs[greek],
+                      estimate: monteCarlo.greeks[greek],
+                      estimator: monteCarlo.estimators[greek]
+                    }))
+                  ].map(({ label, exact, estimate, estimator }) => (
+                    <tr key={label}>
+                      <td className="py-1 font-medium">
+                        {label}
+                        {estimator && <span className="ml-1 text-xs text-gray-400">({estimatorLabels[estimator]})</span>}
+                      </td>
+                      <td className="py-1">{formatNumber(exact)}</td>
+                      <td className="py-1">{formatNumber(estimate.value)} ± {formatNumber(1.96 * estimate.standardError)}</td>
+                      <td className="py-1"><ErrorBar estimate={estimate} exact={exact} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-xs text-gray-500">
+                {monteCarlo.paths.toLocaleString()} paths, variance reduced {monteCarlo.varianceReduction.toFixed(1)}× per path.
+                Bars show the 95% interval; the red mark is the closed-form value.
+              </p>
             </div>
           )}
         </div>
@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import { PDFViewer } from '@react-pdf/renderer';
 import PDFReport from './PDFReport';
-import { Portfolio, OptionGreeks } from '@/types/option';
+import { usePricing } from '@/lib/hooks/usePricing';
+import { Portfolio, OptionGreeks, StressTestResults } from '@/types/option';
 
 interface ExportPDFButtonProps {
   portfolio: Portfolio;
@@ -21,12 +22,7 @@ interface ExportPDFButtonProps {
     unexplained: number;
     total: number;
   };
-  stressTestResults?: {
-    spotPriceChange: number;
-    volatilityChange: number;
-    rateChange: number;
-    stressedPortfolio: Portfolio;
-  };
+  stressTestResults?: StressTestResults;
   volSurfaceInfo?: {
     minStrike: number;
     maxStrike: number;
@@ -44,6 +40,7 @@ export default function ExportPDFButton({
   stressTestResults,
   volSurfaceInfo 
 }: ExportPDFButtonProps) {
+  const { settings } = usePricing();
   const [showPDF, setShowPDF] = useState(false);
 
   // Function to handle download
@@ -129,6 +126,7 @@ export default function ExportPDFButton({
                 <PDFReport 
                   portfolio={portfolio}
                   selectedGreek={selectedGreek}
+                  greekConventions={settings.greekConventions}
                   surfaceStats={surfaceStats}
                   pnlAttribution={pnlAttribution}
                   stressTestResults={stressTestResults}
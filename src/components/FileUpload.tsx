@@ -1,15 +1,26 @@
 import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { parseCSV, parseJSON, generateSampleCSV, generateSampleJSON } from '@/lib/utils/fileParser';
-import { Option } from '@/types/option';
+import {
+  parseCSV,
+  parseJSON,
+  parseDividendCSV,
+  generateSampleCSV,
+  generateSampleJSON,
+  generateSampleDividendCSV
+} from '@/lib/utils/fileParser';
+import { DividendSchedule, Option } from '@/types/option';
+import { usePricing } from '@/lib/hooks/usePricing';
 
 interface FileUploadProps {
   onPortfolioLoad: (options: Option[]) => void;
 }
 
 export default function FileUpload({ onPortfolioLoad }: FileUploadProps) {
+  const { settings } = usePricing();
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [dividendSchedule, setDividendSchedule] = useState<DividendSchedule | null>(null);
+  const [dividendError, setDividendError] = useState<string | null>(null);
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
@@ -21,9 +32,9 @@ export default function FileUpload({ onPortfolioLoad }: FileUploadProps) {
     try {
       let options: Option[];
       if (file.name.endsWith('.csv')) {
-        options = await parseCSV(file);
+        options = await parseCSV(file, settings.valuation, dividendSchedule ?? undefined);
       } else if (file.name.endsWith('.json')) {
-        options = await parseJSON(file);
+        options = await parseJSON(file, settings.valuation, dividendSchedule ?? undefined);
       } else {
         throw new Error('Unsupported file format. Please upload a CSV or JSON file.');
       }
@@ -34,7 +45,20 @@ export default function FileUpload({ onPortfolioLoad }: FileUploadProps) {
     } finally {
       setLoading(false);
     }
-  }, [onPortfolioLoad]);
+  }, [onPortfolioLoad, dividendSchedule, settings.valuation]);
+
+  const onDividendDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    try {
+      const schedule = await parseDividendCSV(acceptedFiles[0]);
+      setDividendSchedule(schedule);
+      setDividendError(null);
+    } catch (err) {
+      setDividendSchedule(null);
+      setDividendError(err instanceof Error ? err.message : 'An error occurred while parsing the dividend file.');
+    }
+  }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -45,10 +69,24 @@ export default function FileUpload({ onPortfolioLoad }: FileUploadProps) {
     multiple: false
   });
 
-  const downloadSample = (format: 'csv' | 'json') => {
-    const content = format === 'csv' ? generateSampleCSV() : generateSampleJSON();
-    const type = format === 'csv' ? 'text/csv' : 'application/json';
-    const filename = `sample-portfolio.${format}`;
+  const dividendDropzone = useDropzone({
+    onDrop: onDividendDrop,
+    accept: {
+      'text/csv': ['.csv']
+    },
+    multiple: false
+  });
+
+  const dividendCount = dividendSchedule
+    ? Object.values(dividendSchedule).reduce((sum, dividends) => sum + dividends.length, 0)
+    : 0;
+
+  const downloadSample = (format: 'csv' | 'json' | 'dividends') => {
+    const content = format === 'csv' ? generateSampleCSV() :
+      format === 'json' ? generateSampleJSON() :
+      generateSampleDividendCSV();
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    const filename = format === 'dividends' ? 'sample-dividends.csv' : `sample-portfolio.${format}`;
 
     const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
@@ -89,6 +127,30 @@ export default function FileUpload({ onPortfolioLoad }: FileUploadProps) {
         </div>
       )}
 
+      <div
+        {...dividendDropzone.getRootProps()}
+        className={`mt-4 border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors
+          ${dividendDropzone.isDragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'}`}
+      >
+        <input {...dividendDropzone.getInputProps()} />
+        {dividendSchedule ? (
+          <p className="text-sm text-gray-700">
+            Dividend schedule loaded: {dividendCount} dividends across {Object.keys(dividendSchedule).length} tickers
+          </p>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-700">Optional: drop a dividend schedule CSV before loading the portfolio</p>
+            <p className="text-xs text-gray-500">Columns: ticker, exDate (YYYY-MM-DD), amount</p>
+          </div>
+        )}
+      </div>
+
+      {dividendError && (
+        <div className="mt-4 p-4 bg-red-50 text-red-700 rounded-lg">
+          {dividendError}
+        </div>
+      )}
+
       <div className="mt-6 flex justify-center space-x-4">
         <button
           onClick={() => downloadSample('csv')}
@@ -102,6 +164,12 @@ export default function FileUpload({ onPortfolioLoad }: FileUploadProps) {
         >
           Download Sample JSON
         </button>
+        <button
+          onClick={() => downloadSample('dividends')}
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm"
+        >
+          Download Sample Dividends
+        </button>
       </div>
     </div>
   );
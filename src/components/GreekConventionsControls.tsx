@@ -0,0 +1,59 @@
+import { GammaUnit, GreekConventions, SensitivityUnit, ThetaUnit } from '@/types/option';
+import { gammaUnitLabels, sensitivityUnitLabels, thetaUnitLabels } from '@/lib/utils/greekConventions';
+import { usePricing } from '@/lib/hooks/usePricing';
+
+// Units every Greek in the dashboard is reported in
+export default function GreekConventionsControls() {
+  const { settings, updateSettings } = usePricing();
+  const conventions = settings.greekConventions;
+
+  const update = (changes: Partial<GreekConventions>) => {
+    updateSettings({ greekConventions: { ...conventions, ...changes } });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm font-medium text-gray-700">Greek Units</span>
+      <select
+        value={conventions.theta}
+        onChange={(e) => update({ theta: e.target.value as ThetaUnit })}
+        className="px-3 py-2 border rounded-lg text-sm"
+        title="Theta"
+      >
+        {(Object.keys(thetaUnitLabels) as ThetaUnit[]).map(unit => (
+          <option key={unit} value={unit}>Theta {thetaUnitLabels[unit]}</option>
+        ))}
+      </select>
+      <select
+        value={conventions.vega}
+        onChange={(e) => update({ vega: e.target.value as SensitivityUnit })}
+        className="px-3 py-2 border rounded-lg text-sm"
+        title="Vega"
+      >
+        {(Object.keys(sensitivityUnitLabels) as SensitivityUnit[]).map(unit => (
+          <option key={unit} value={unit}>Vega {sensitivityUnitLabels[unit]}</option>
+        ))}
+      </select>
+      <select
+        value={conventions.rho}
+        onChange={(e) => update({ rho: e.target.value as SensitivityUnit })}
+        className="px-3 py-2 border rounded-lg text-sm"
+        title="Rho and foreign rho"
+      >
+        {(Object.keys(sensitivityUnitLabels) as SensitivityUnit[]).map(unit => (
+          <option key={unit} value={unit}>Rho {sensitivityUnitLabels[unit]}</option>
+        ))}
+      </select>
+      <select
+        value={conventions.gamma}
+        onChange={(e) => update({ gamma: e.target.value as GammaUnit })}
+        className="px-3 py-2 border rounded-lg text-sm"
+        title="Gamma"
+      >
+        {(Object.keys(gammaUnitLabels) as GammaUnit[]).map(unit => (
+          <option key={unit} value={unit}>Gamma {gammaUnitLabels[unit]}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
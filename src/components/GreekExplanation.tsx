@@ -1,4 +1,6 @@
 import { OptionGreeks } from '@/types/option';
+import { greekInterpretations, greekUnitSuffix } from '@/lib/utils/greekConventions';
+import { usePricing } from '@/lib/hooks/usePricing';
 
 interface GreekExplanationProps {
   selectedGreek: keyof OptionGreeks;
@@ -65,19 +67,103 @@ const greekDescriptions = {
       'More relevant in high interest rate environments',
       'Usually the least monitored Greek'
     ]
+  },
+  rhoForeign: {
+    title: 'Foreign Rho (ρf)',
+    description: 'Measures sensitivity to the foreign interest rate (or dividend yield for equities).',
+    interpretation: 'A foreign rho of -0.2 means a 1% rise in the foreign rate lowers the option value by $0.20.',
+    range: 'Negative for calls, positive for puts',
+    keyPoints: [
+      'The second rate leg of an FX option',
+      'Larger for longer-dated options',
+      'Zero for futures options, which carry no yield'
+    ]
+  },
+  vanna: {
+    title: 'Vanna',
+    description: 'Measures the rate of change in delta with respect to volatility (equivalently, vega with respect to the underlying price).',
+    interpretation: 'A vanna of -0.3 means a 1% rise in vol lowers delta by 0.003.',
+    range: 'Positive below the forward, negative above it for long options',
+    keyPoints: [
+      'Largest for OTM options either side of the money',
+      'Drives delta hedge drift when spot and vol move together',
+      'Central to skew and risk-reversal trading'
+    ]
+  },
+  volga: {
+    title: 'Volga (Vomma)',
+    description: 'Measures the rate of change in vega with respect to volatility.',
+    interpretation: 'A volga of 10 means a 1% rise in vol increases vega by 0.10.',
+    range: 'Non-negative for long vanilla options, near zero ATM',
+    keyPoints: [
+      'Largest for OTM options and wings of the smile',
+      'Represents convexity of value in volatility',
+      'Key for pricing butterflies and vol-of-vol exposure'
+    ]
+  },
+  charm: {
+    title: 'Charm (Delta Decay)',
+    description: 'Measures the rate of change in delta as time passes.',
+    interpretation: 'A charm of 0.02 means delta rises by about 0.00005 per day, all else equal.',
+    range: 'Either sign, grows sharply near expiration',
+    keyPoints: [
+      'OTM deltas decay towards 0, ITM deltas towards ±1',
+      'Explains hedge drift over weekends and holidays',
+      'Largest for near-dated options close to the strike'
+    ]
+  },
+  speed: {
+    title: 'Speed',
+    description: 'Measures the rate of change in gamma with respect to the underlying price.',
+    interpretation: 'A speed of -0.0004 means a $1 rise in the underlying lowers gamma by 0.0004.',
+    range: 'Positive below the strike, negative above it for long options',
+    keyPoints: [
+      'Shows which way gamma moves as spot moves',
+      'Matters for large moves where gamma is not constant',
+      'Third-order term in a spot Taylor expansion'
+    ]
+  },
+  color: {
+    title: 'Color (Gamma Decay)',
+    description: 'Measures the rate of change in gamma as time passes.',
+    interpretation: 'A color of 0.01 means gamma rises by about 0.00003 per day, all else equal.',
+    range: 'Either sign, grows sharply near expiration',
+    keyPoints: [
+      'ATM gamma rises into expiry, OTM gamma falls away',
+      'Anticipates how hedging needs change over time',
+      'Largest for near-dated ATM options'
+    ]
+  },
+  zomma: {
+    title: 'Zomma',
+    description: 'Measures the rate of change in gamma with respect to volatility.',
+    interpretation: 'A zomma of -0.06 means a 1% rise in vol lowers gamma by 0.0006.',
+    range: 'Negative near the money, positive in the wings',
+    keyPoints: [
+      'Shows how gamma exposure shifts with vol regime',
+      'A vol spike flattens ATM gamma and lifts wing gamma',
+      'Relevant for gamma-trading strategies'
+    ]
   }
 };
 
 export default function GreekExplanation({ selectedGreek, surfaceStats }: GreekExplanationProps) {
+  const { settings } = usePricing();
   const greek = greekDescriptions[selectedGreek];
+  // Worked examples follow the units the Greeks are shown in
+  const interpretation = greekInterpretations(settings.greekConventions)[selectedGreek] ?? greek.interpretation;
+  const unit = greekUnitSuffix(selectedGreek, settings.greekConventions);
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-6 space-y-4">
-      <h3 className="text-2xl font-bold text-gray-800">{greek.title}</h3>
+      <h3 className="text-2xl font-bold text-gray-800">
+        {greek.title}
+        {unit && <span className="ml-2 text-base font-normal text-gray-500">({unit})</span>}
+      </h3>
       
       <div className="space-y-2">
         <p className="text-gray-700">{greek.description}</p>
-        <p className="text-gray-600 italic">{greek.interpretation}</p>
+        <p className="text-gray-600 italic">{interpretation}</p>
         <p className="text-gray-600">
           <span className="font-semibold">Typical Range:</span> {greek.range}
         </p>
@@ -121,6 +207,13 @@ export default function GreekExplanation({ selectedGreek, surfaceStats }: GreekE
                 {selectedGreek === 'theta' && 'Accelerated time decay in high theta areas.'}
                 {selectedGreek === 'vega' && 'Greater volatility risk in high vega regions.'}
                 {selectedGreek === 'rho' && 'Significant rate exposure in high absolute rho areas.'}
+                {selectedGreek === 'rhoForeign' && 'Significant foreign rate or yield exposure in high absolute foreign rho areas.'}
+                {selectedGreek === 'vanna' && 'Delta hedges drift most with vol in high absolute vanna regions.'}
+                {selectedGreek === 'volga' && 'Vega exposure grows fastest with vol in high volga regions.'}
+                {selectedGreek === 'charm' && 'Delta hedges need rebalancing over time in high absolute charm areas.'}
+                {selectedGreek === 'speed' && 'Gamma changes fastest with spot in high absolute speed regions.'}
+                {selectedGreek === 'color' && 'Gamma shifts fastest over time in high absolute color areas.'}
+                {selectedGreek === 'zomma' && 'Gamma exposure is most vol-dependent in high absolute zomma regions.'}
               </p>
             </div>
           </div>
@@ -1,7 +1,10 @@
 import { useEffect, useState, useMemo, Suspense } from 'react';
 import dynamic from 'next/dynamic';
-import { Portfolio, Option, OptionGreeks } from '@/types/option';
-import { calculateOptionMetrics } from '@/lib/utils/blackScholes';
+import { Portfolio, Option, OptionGreeks, PricingSettings } from '@/types/option';
+import { calculateOptionMetrics, optionValueGrid, pricingModelLabels } from '@/lib/utils/pricingEngine';
+import { isDigitalType } from '@/lib/utils/digital';
+import { usePricing } from '@/lib/hooks/usePricing';
+import { greekLabelWithUnit } from '@/lib/utils/greekConventions';
 import GreekExplanation from './GreekExplanation';
 import { ErrorBoundary } from './ErrorBoundary';
 
@@ -24,9 +27,52 @@ interface GreeksSurfaceViewerProps {
 }
 
 interface SurfaceData {
-  x: number[];  // Strike prices
+  x: number[];  // Strike prices, or spot prices for barrier options and the value grid
   y: number[];  // Time to expiry
-  z: number[][]; // Greek values
+  z: number[][]; // Greek values, or option values on the value grid
+  zLabel: string;
+  clippedPoints: number; // Points pulled in to the percentile band
+  xAxis: 'strike' | 'spot';
+  barrierLevel?: number;
+}
+
+// Spot window and resolution the finite-difference value grid is drawn at
+const VALUE_GRID_SPOT_RANGE: [number, number] = [0.7, 1.3];
+const VALUE_GRID_MAX_POINTS = 40;
+
+// Every nth entry, keeping the last, so at most maxPoints remain
+function thin<T>(values: T[], maxPoints: number): T[] {
+  const stride = Math.ceil(values.length / maxPoints);
+  return values.filter((_, i) => i % stride === 0 || i === values.length - 1);
+}
+
+// A finite-difference solve per point would take minutes over the whole
+// surface, so under that model American positions are drawn with
+// Barone-Adesi-Whaley instead. The value grid is still the solver's own.
+function surfacePricingSettings(settings: PricingSettings): PricingSettings {
+  return settings.model === 'finiteDifference' ? { ...settings, model: 'baroneAdesiWhaley' } : settings;
+}
+
+// Percentile band kept when a surface has spikes that would flatten the rest
+const CLIP_PERCENTILES: [number, number] = [0.02, 0.98];
+
+// Digital Greeks blow up near expiry around the strike, where the payoff jumps.
+// Clamp the surface to a percentile band so the spike doesn't swamp the plot.
+function clipSpikes(z: number[][]): { z: number[][]; clippedPoints: number } {
+  const sorted = z.flat().filter(Number.isFinite).sort((a, b) => a - b);
+  if (sorted.length === 0) return { z, clippedPoints: 0 };
+
+  const lower = sorted[Math.floor(CLIP_PERCENTILES[0] * (sorted.length - 1))];
+  const upper = sorted[Math.ceil(CLIP_PERCENTILES[1] * (sorted.length - 1))];
+
+  let clippedPoints = 0;
+  const clipped = z.map(row => row.map(value => {
+    if (Number.isFinite(value) && value >= lower && value <= upper) return value;
+    clippedPoints++;
+    return Number.isFinite(value) ? Math.min(Math.max(value, lower), upper) : (value > 0 ? upper : lower);
+  }));
+
+  return { z: clipped, clippedPoints };
 }
 
 interface ViewSettings {
@@ -34,30 +80,38 @@ interface ViewSettings {
   showCrossSections: boolean;
   animate: boolean;
   showAnnotations: boolean;
+  valueGrid: boolean;
 }
 
 export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: GreeksSurfaceViewerProps) {
+  const { settings } = usePricing();
   const [surfaceData, setSurfaceData] = useState<SurfaceData | null>(null);
   const [viewSettings, setViewSettings] = useState<ViewSettings>({
     viewMode: 'surface',
     showCrossSections: false,
     animate: false,
     showAnnotations: false,
+    valueGrid: false,
   });
   const [selectedTimeIndex, setSelectedTimeIndex] = useState<number>(0);
 
-  // Generate a range of values for strike prices and time to expiry
+  // Generate a range of values for strike prices and time to expiry. Barrier
+  // options are drawn against spot instead, since that is where their Greeks
+  // change shape, over a range that takes in the barrier.
   const generateSurfacePoints = useMemo(() => {
     const baseOption = portfolio.options[0];
     if (!baseOption) return null;
 
-    // Generate strike price range (±30% around current spot price)
+    const barrierLevel = baseOption.barrierType ? baseOption.barrierLevel : undefined;
+    const xAxis: SurfaceData['xAxis'] = barrierLevel !== undefined ? 'spot' : 'strike';
+
+    // Generate a ±30% range around the current spot price
     const spotPrice = baseOption.spotPrice;
-    const minStrike = spotPrice * 0.7;
-    const maxStrike = spotPrice * 1.3;
-    const strikePoints = 40; // Increased resolution
-    const strikes = Array.from({ length: strikePoints }, (_, i) => 
-      minStrike + (maxStrike - minStrike) * (i / (strikePoints - 1))
+    const minX = barrierLevel !== undefined ? Math.min(spotPrice * 0.7, barrierLevel * 0.9) : spotPrice * 0.7;
+    const maxX = barrierLevel !== undefined ? Math.max(spotPrice * 1.3, barrierLevel * 1.1) : spotPrice * 1.3;
+    const xPoints = 40; // Increased resolution
+    const xs = Array.from({ length: xPoints }, (_, i) =>
+      minX + (maxX - minX) * (i / (xPoints - 1))
     );
 
     // Generate time to expiry range (0.1 to 2 years)
@@ -66,33 +120,69 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
       0.1 + (2 - 0.1) * (i / (timePoints - 1))
     );
 
-    return { strikes, times };
+    return { xs, times, xAxis, barrierLevel };
   }, [portfolio]);
 
+  // The finite-difference grid of option values, drawn as solved rather than repriced
+  const valueGrid = useMemo(() => {
+    const baseOption = portfolio.options[0];
+    if (!viewSettings.valueGrid || !baseOption) return null;
+    return optionValueGrid(baseOption, settings);
+  }, [portfolio, settings, viewSettings.valueGrid]);
+
   // Calculate surface data
   useEffect(() => {
     if (!generateSurfacePoints) return;
-    const { strikes, times } = generateSurfacePoints;
+
+    if (valueGrid) {
+      const spot = portfolio.options[0].spotPrice;
+      const spotIndices = valueGrid.spots
+        .map((_, i) => i)
+        .filter(i => valueGrid.spots[i] >= spot * VALUE_GRID_SPOT_RANGE[0] && valueGrid.spots[i] <= spot * VALUE_GRID_SPOT_RANGE[1]);
+      const columns = thin(spotIndices, VALUE_GRID_MAX_POINTS);
+      const rows = thin(valueGrid.timesToExpiry.map((_, n) => n), VALUE_GRID_MAX_POINTS);
+
+      setSurfaceData({
+        x: columns.map(i => valueGrid.spots[i]),
+        y: rows.map(n => valueGrid.timesToExpiry[n]),
+        z: rows.map(n => columns.map(i => valueGrid.values[n][i])),
+        zLabel: 'value',
+        clippedPoints: 0,
+        xAxis: 'spot'
+      });
+      return;
+    }
+
+    const { xs, times, xAxis, barrierLevel } = generateSurfacePoints;
+    const surfaceSettings = surfacePricingSettings(settings);
 
     // Calculate Greeks for each point on the surface
     const zValues = times.map(t => 
-      strikes.map(k => {
+      xs.map(x => {
         const testOption: Option = {
           ...portfolio.options[0],
-          strikePrice: k,
+          ...(xAxis === 'spot' ? { spotPrice: x } : { strikePrice: x }),
           timeToExpiry: t
         };
-        const metrics = calculateOptionMetrics(testOption);
+        const metrics = calculateOptionMetrics(testOption, surfaceSettings);
         return metrics.greeks[selectedGreek];
       })
     );
 
+    const { z, clippedPoints } = isDigitalType(portfolio.options[0].type)
+      ? clipSpikes(zValues)
+      : { z: zValues, clippedPoints: 0 };
+
     setSurfaceData({
-      x: strikes,
+      x: xs,
       y: times,
-      z: zValues
+      z,
+      zLabel: greekLabelWithUnit(selectedGreek, selectedGreek, settings.greekConventions),
+      clippedPoints,
+      xAxis,
+      barrierLevel
     });
-  }, [portfolio, selectedGreek, generateSurfacePoints]);
+  }, [portfolio, selectedGreek, generateSurfacePoints, settings, valueGrid]);
 
   // Animation effect
   useEffect(() => {
@@ -127,6 +217,7 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
 
   // Prepare plot data based on view settings
   const plotData: any[] = [];
+  const xAxisLabel = surfaceData.xAxis === 'spot' ? 'Spot' : 'Strike';
 
   // Main surface or heatmap
   if (viewSettings.viewMode === 'surface') {
@@ -150,9 +241,9 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
         font: { family: 'monospace' }
       },
       hovertemplate: 
-        'Strike: $%{x:.2f}<br>' +
+        `${xAxisLabel}: $%{x:.2f}<br>` +
         'Time: %{y:.2f}y<br>' +
-        `${selectedGreek}: %{z:.4f}<br>` +
+        `${surfaceData.zLabel}: %{z:.4f}<br>` +
         '<extra></extra>'
     });
   } else if (viewSettings.viewMode === 'contour') {
@@ -179,6 +270,38 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
     });
   }
 
+  // Overlay the barrier as a vertical plane across the surface
+  if (surfaceData.barrierLevel !== undefined && viewSettings.viewMode === 'surface') {
+    const values = surfaceData.z.flat().filter(Number.isFinite);
+    const zMin = Math.min(...values);
+    const zMax = Math.max(...values);
+    const yMin = surfaceData.y[0];
+    const yMax = surfaceData.y[surfaceData.y.length - 1];
+
+    plotData.push({
+      type: 'surface',
+      x: [surfaceData.barrierLevel, surfaceData.barrierLevel],
+      y: [yMin, yMax],
+      z: [[zMin, zMax], [zMin, zMax]],
+      surfacecolor: [[0, 0], [0, 0]],
+      colorscale: [[0, 'rgb(220, 38, 38)'], [1, 'rgb(220, 38, 38)']],
+      showscale: false,
+      opacity: 0.35,
+      name: `Barrier (${surfaceData.barrierLevel.toFixed(2)})`,
+      hovertemplate: `Barrier: $${surfaceData.barrierLevel.toFixed(2)}<extra></extra>`
+    });
+  } else if (surfaceData.barrierLevel !== undefined) {
+    // Contour and heat maps are flat, so the barrier is a line across them
+    plotData.push({
+      type: 'scatter',
+      x: [surfaceData.barrierLevel, surfaceData.barrierLevel],
+      y: [surfaceData.y[0], surfaceData.y[surfaceData.y.length - 1]],
+      mode: 'lines',
+      line: { color: 'rgb(220, 38, 38)', width: 3, dash: 'dash' },
+      name: `Barrier (${surfaceData.barrierLevel.toFixed(2)})`
+    });
+  }
+
   // Add cross sections if enabled
   if (viewSettings.showCrossSections) {
     // Time slice
@@ -199,7 +322,7 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
       x: surfaceData.x[Math.floor(surfaceData.x.length / 2)],
       y: surfaceData.y[Math.floor(surfaceData.y.length / 2)],
       z: Math.max(...surfaceData.z.flat()) * 1.1,
-      text: `${selectedGreek} Surface`,
+      text: `${surfaceData.zLabel} Surface`,
       showarrow: false,
       font: { size: 16 }
     }
@@ -247,6 +370,18 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
               Animate Time Evolution
             </label>
 
+            <label className="flex items-center gap-2" title="Option values over spot and time from the finite-difference solver">
+              <input
+                type="checkbox"
+                checked={viewSettings.valueGrid}
+                onChange={(e) => setViewSettings(prev => ({
+                  ...prev,
+                  valueGrid: e.target.checked
+                }))}
+              />
+              PDE Value Grid
+            </label>
+
             <label className="flex items-center gap-2">
               <input
                 type="checkbox"
@@ -270,10 +405,10 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
                 <Plot
                   data={plotData}
                   layout={{
-                    title: `${selectedGreek} Surface Analysis`,
+                    title: valueGrid ? 'Option Value (Finite-Difference Grid)' : `${selectedGreek} Surface Analysis`,
                     scene: {
                       xaxis: { 
-                        title: 'Strike Price ($)',
+                        title: `${xAxisLabel} Price ($)`,
                         tickprefix: '$'
                       },
                       yaxis: { 
@@ -281,7 +416,7 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
                         ticksuffix: 'y'
                       },
                       zaxis: { 
-                        title: selectedGreek,
+                        title: surfaceData.zLabel,
                         tickformat: '.4f'
                       },
                       camera: {
@@ -300,7 +435,7 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
                     scrollZoom: true,
                     toImageButtonOptions: {
                       format: 'png',
-                      filename: `${selectedGreek}_surface`,
+                      filename: `${surfaceData.zLabel}_surface`,
                       height: 1200,
                       width: 1600,
                       scale: 2
@@ -310,12 +445,33 @@ export default function GreeksSurfaceViewer({ portfolio, selectedGreek }: Greeks
               </Suspense>
             </div>
           </ErrorBoundary>
+
+          {viewSettings.valueGrid && !valueGrid && (
+            <p className="mt-2 text-sm text-amber-700">
+              The finite-difference grid covers lognormal vanilla calls and puts with time and volatility left; showing the {selectedGreek} surface instead.
+            </p>
+          )}
+
+          {!valueGrid && settings.model === 'finiteDifference' && portfolio.options[0]?.exerciseStyle === 'American' && (
+            <p className="mt-2 text-sm text-amber-700">
+              Solving the finite-difference grid at every point would be too slow, so this surface is priced with{' '}
+              {pricingModelLabels.baroneAdesiWhaley}.
+            </p>
+          )}
+
+          {surfaceData.clippedPoints > 0 && (
+            <p className="mt-2 text-sm text-amber-700">
+              Digital {selectedGreek} spikes near expiry around the strike; {surfaceData.clippedPoints} of{' '}
+              {surfaceData.x.length * surfaceData.y.length} points were clamped to the{' '}
+              {CLIP_PERCENTILES[0] * 100}th–{CLIP_PERCENTILES[1] * 100}th percentile range.
+            </p>
+          )}
         </div>
 
         <div className="lg:col-span-1">
           <GreekExplanation 
             selectedGreek={selectedGreek}
-            surfaceStats={surfaceStats || undefined}
+            surfaceStats={(!valueGrid && surfaceStats) || undefined}
           />
         </div>
       </div>
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { CalibrationMarket, VolSurfaceData } from '@/types/option';
+import { calibrateHeston, HestonCalibrationResult } from '@/lib/utils/hestonCalibration';
+import { volatilityModelLabels } from '@/lib/utils/pricingEngine';
+import { usePricing } from '@/lib/hooks/usePricing';
+
+interface HestonCalibrationProps {
+  surface: VolSurfaceData | null;
+  market: CalibrationMarket;
+}
+
+const parameterLabels: { key: keyof HestonCalibrationResult['parameters']; label: string; description: string }[] = [
+  { key: 'kappa', label: 'κ', description: 'Mean reversion speed' },
+  { key: 'theta', label: 'θ', description: 'Long-run variance' },
+  { key: 'xi', label: 'ξ', description: 'Vol of variance' },
+  { key: 'rho', label: 'ρ', description: 'Spot-variance correlation' },
+  { key: 'v0', label: 'v₀', description: 'Initial variance' }
+];
+
+// Fit error cell shading, in implied volatility points
+function errorColor(error: number): string {
+  const magnitude = Math.abs(error);
+  if (magnitude < 0.0025) return 'bg-green-50 text-green-800';
+  if (magnitude < 0.01) return 'bg-yellow-50 text-yellow-800';
+  return 'bg-red-50 text-red-800';
+}
+
+function formatVolPoints(value: number): string {
+  const sign = value > 0 ? '+' : '';
+  return `${sign}${(value * 100).toFixed(2)}%`;
+}
+
+export default function HestonCalibration({ surface, market }: HestonCalibrationProps) {
+  const { settings, updateSettings } = usePricing();
+  const [result, setResult] = useState<HestonCalibrationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [calibrating, setCalibrating] = useState(false);
+
+  const hestonActive = settings.volatilityModel === 'heston';
+
+  // A new surface needs a new fit
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [surface]);
+
+  const runCalibration = () => {
+    if (!surface) return;
+    setCalibrating(true);
+    // Let the button state render before the fit blocks the thread
+    setTimeout(() => {
+      try {
+        const calibrated = calibrateHeston(surface, market);
+        setResult(calibrated);
+        setError(null);
+        if (hestonActive) updateSettings({ hestonParameters: calibrated.parameters });
+      } catch (err) {
+        setResult(null);
+        setError(err instanceof Error ? err.message : 'Calibration failed');
+      } finally {
+        setCalibrating(false);
+      }
+    }, 0);
+  };
+
+  const toggleHeston = (enabled: boolean) => {
+    if (enabled && result) {
+      updateSettings({ volatilityModel: 'heston', hestonParameters: result.parameters });
+    } else {
+      updateSettings({ volatilityModel: 'blackScholes' });
+    }
+  };
+
+  const errorAt = (strike: number, maturity: number) =>
+    result?.points.find(point => point.strike === strike && point.maturity === maturity);
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-4">Heston Stochastic Volatility</h3>
+
+      <div className="space-y-4">
+        <button
+          onClick={runCalibration}
+          disabled={!surface || calibrating}
+          className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {calibrating ? 'Calibrating...' : surface ? 'Calibrate Heston' : 'Upload a volatility surface to calibrate'}
+        </button>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {parameterLabels.map(({ key, label, description }) => (
+                <div key={key} className="bg-gray-50 p-3 rounded-lg border border-gray-200">
+                  <h4 className="text-sm font-medium text-gray-500" title={description}>{label}</h4>
+                  <p className="text-lg font-semibold mt-1">{result.parameters[key].toFixed(4)}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>
+                RMSE {formatVolPoints(result.rmse)} vol, max error {formatVolPoints(result.maxError)} vol,
+                {' '}{result.iterations} iterations
+              </p>
+              <p className={result.fellerSatisfied ? 'text-green-700' : 'text-amber-700'}>
+                {result.fellerSatisfied
+                  ? 'Feller condition holds (2κθ > ξ²): variance stays positive'
+                  : 'Feller condition fails (2κθ ≤ ξ²): variance can touch zero'}
+              </p>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium text-gray-500">Maturity \ Strike</th>
+                    {surface?.strikes.map(strike => (
+                      <th key={strike} className="px-2 py-1 text-right font-medium text-gray-500">{strike}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {surface?.maturities.map(maturity => (
+                    <tr key={maturity}>
+                      <td className="px-2 py-1 font-medium text-gray-700">{maturity}y</td>
+                      {surface.strikes.map(strike => {
+                        const point = errorAt(strike, maturity);
+                        return (
+                          <td
+                            key={strike}
+                            className={`px-2 py-1 text-right ${point ? errorColor(point.error) : 'text-gray-300'}`}
+                            title={point
+                              ? `Market ${(point.marketVol * 100).toFixed(2)}%, Heston ${(point.modelVol * 100).toFixed(2)}%`
+                              : 'No quote'}
+                          >
+                            {point ? formatVolPoints(point.error) : '—'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-1">Heston minus market implied volatility</p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={hestonActive}
+                onChange={(e) => toggleHeston(e.target.checked)}
+              />
+              Value European calls and puts with {volatilityModelLabels.heston}
+            </label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
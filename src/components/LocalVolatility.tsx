@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { CalibrationMarket, Portfolio, SviSurface, VolSurfaceData } from '@/types/option';
+import { fitSviSurface, sampleSviSurface } from '@/lib/utils/svi';
+import { LocalVolatilityResult, sampleLocalVolatility } from '@/lib/utils/localVolatility';
+import { optionTypeLabels, simulateOptionLocalVolatility } from '@/lib/utils/pricingEngine';
+import { averageTypeLabels } from '@/lib/utils/asian';
+import { barrierTypeLabels } from '@/lib/utils/barrier';
+
+// Dynamically import Plotly to avoid SSR issues
+const Plot = dynamic(() => import('react-plotly.js'), { ssr: false });
+
+interface LocalVolatilityProps {
+  portfolio: Portfolio;
+  surface: VolSurfaceData | null;
+  market: CalibrationMarket;
+  svi: SviSurface | null;   // Fitted surface; SSVI is fitted here when there is none
+}
+
+function SurfacePlot({ data, title }: { data: VolSurfaceData; title: string }) {
+  return (
+    <div className="h-[350px]">
+      <Plot
+        data={[{
+          type: 'surface',
+          x: data.strikes,
+          y: data.maturities,
+          z: data.volatilities,
+          colorscale: 'Viridis',
+          showscale: false
+        }]}
+        layout={{
+          title,
+          scene: {
+            xaxis: { title: 'Strike / Spot' },
+            yaxis: { title: 'Maturity' },
+            zaxis: { title: 'Volatility' },
+            camera: { eye: { x: 1.5, y: 1.5, z: 1.5 } }
+          },
+          margin: { l: 0, r: 0, t: 30, b: 0 },
+          autosize: true
+        }}
+        useResizeHandler={true}
+        style={{ width: '100%', height: '100%' }}
+      />
+    </div>
+  );
+}
+
+export default function LocalVolatility({ portfolio, surface, market, svi }: LocalVolatilityProps) {
+  const smoothed = useMemo<SviSurface | null>(() => {
+    if (svi) return svi;
+    if (!surface) return null;
+    try {
+      return fitSviSurface(surface, market, 'ssvi').surface;
+    } catch {
+      return null;
+    }
+  }, [svi, surface, market]);
+
+  const plots = useMemo(() => {
+    if (!smoothed || !surface) return null;
+    return {
+      implied: sampleSviSurface(smoothed, surface),
+      local: sampleLocalVolatility(smoothed, surface)
+    };
+  }, [smoothed, surface]);
+
+  // Simulations run on demand, keyed by row, and are dropped when the book or surface changes
+  const [results, setResults] = useState<Record<number, LocalVolatilityResult | null>>({});
+  useEffect(() => setResults({}), [portfolio, smoothed]);
+
+  const runSimulation = (index: number) => {
+    if (!smoothed) return;
+    setResults(current => ({ ...current, [index]: simulateOptionLocalVolatility(portfolio.options[index], smoothed) }));
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-4">Dupire Local Volatility</h3>
+
+      {!smoothed ? (
+        <p className="text-sm text-gray-500">
+          Upload a volatility surface to derive local volatility. The SVI fit is used when there is one, otherwise SSVI is fitted.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {plots && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <SurfacePlot data={plots.implied} title={`Implied (${smoothed.model === 'ssvi' ? 'SSVI' : 'SVI'})`} />
+              <SurfacePlot data={plots.local} title="Local (Dupire)" />
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left font-medium text-gray-500">Position</th>
+                  <th className="px-2 py-1 text-right font-medium text-gray-500">Closed Form</th>
+                  <th className="px-2 py-1 text-right font-medium text-gray-500">Local Vol MC</th>
+                  <th className="px-2 py-1 text-right font-medium text-gray-500">LV Delta</th>
+                </tr>
+              </thead>
+              <tbody>
+                {portfolio.options.map((option, index) => {
+                  const result = results[index];
+                  return (
+                    <tr key={`${option.ticker}-${index}`}>
+                      <td className="px-2 py-1 text-gray-700">
+                        {option.ticker} {optionTypeLabels[option.type]} {option.strikePrice}
+                        {option.averageType && (
+                          <span className="ml-1 text-xs text-gray-400">({averageTypeLabels[option.averageType]})</span>
+                        )}
+                        {option.barrierType && (
+                          <span className="ml-1 text-xs text-gray-400">({barrierTypeLabels[option.barrierType]} {option.barrierLevel})</span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1 text-right">{option.price.toFixed(4)}</td>
+                      <td className="px-2 py-1 text-right">
+                        {index in results ? (
+                          result ? (
+                            <span title={`${result.paths.toLocaleString()} paths, ${result.steps} steps, 95% confidence interval`}>
+                              {result.price.value.toFixed(4)} ± {(result.confidenceInterval[1] - result.price.value).toFixed(4)}
+                            </span>
+                          ) : (
+                            <span title="Early exercise, normal volatility and expired positions are not simulated">n/a</span>
+                          )
+                        ) : (
+                          <button
+                            onClick={() => runSimulation(index)}
+                            className="text-xs text-blue-600 hover:text-blue-800"
+                          >
+                            Run
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-2 py-1 text-right">{result ? result.delta.toFixed(4) : '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-1">
+              Local volatility is read against the surface&apos;s spot and forwards; positions simulate from their own spot and rates.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
 import { Document, Page, Text, View, StyleSheet, PDFViewer, Font } from '@react-pdf/renderer';
-import { Portfolio, OptionGreeks } from '@/types/option';
+import { CurrencyTotals, Portfolio, OptionGreeks, StressTestResults, GreekConventions } from '@/types/option';
+import { optionTypeLabels, separateDeltaUnderlyings, underlyingTypeLabels } from '@/lib/utils/pricingEngine';
+import { barrierTypeLabels } from '@/lib/utils/barrier';
+import { averageTypeLabels } from '@/lib/utils/asian';
+import { curveShockTypeLabels } from '@/lib/utils/yieldCurve';
+import { positionCurrency } from '@/lib/utils/garmanKohlhagen';
+import { DEFAULT_GREEK_CONVENTIONS, greekInterpretations, greekLabelWithUnit } from '@/lib/utils/greekConventions';
 
 interface PDFReportProps {
   portfolio: Portfolio;
   selectedGreek?: keyof OptionGreeks;
+  greekConventions?: GreekConventions;
   surfaceStats?: {
     min: number;
     max: number;
@@ -19,12 +26,7 @@ interface PDFReportProps {
     unexplained: number;
     total: number;
   };
-  stressTestResults?: {
-    spotPriceChange: number;
-    volatilityChange: number;
-    rateChange: number;
-    stressedPortfolio: Portfolio;
-  };
+  stressTestResults?: StressTestResults;
   volSurfaceInfo?: {
     minStrike: number;
     maxStrike: number;
@@ -204,15 +206,23 @@ const styles = StyleSheet.create({
   },
 });
 
-function formatCurrency(value: number): string {
+function formatCurrency(value: number, currency: string = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   }).format(value);
 }
 
+// A book total as one figure per currency, since amounts in different
+// currencies don't add up
+function formatCurrencyTotals(portfolio: Portfolio, amount: (totals: CurrencyTotals) => number): string {
+  const totals = Object.entries(portfolio.totalsByCurrency);
+  if (totals.length === 0) return formatCurrency(0);
+  return totals.map(([currency, currencyTotals]) => formatCurrency(amount(currencyTotals), currency)).join(', ');
+}
+
 function formatNumber(value: number, decimals: number = 4): string {
   return value.toFixed(decimals);
 }
@@ -230,6 +240,7 @@ function formatChange(current: number, original: number): string {
 export default function PDFReport({ 
   portfolio, 
   selectedGreek,
+  greekConventions = DEFAULT_GREEK_CONVENTIONS,
   surfaceStats,
   pnlAttribution,
   stressTestResults,
@@ -241,6 +252,9 @@ export default function PDFReport({
     day: 'numeric',
   });
 
+  // Futures and FX deltas are reported separately from equity deltas
+  const separateDeltas = separateDeltaUnderlyings(portfolio.options);
+
   // Greek descriptions from GreekExplanation component
   const greekDescriptions = {
     delta: {
@@ -267,6 +281,41 @@ export default function PDFReport({
       title: 'Rho (ρ)',
       description: 'Measures sensitivity to changes in the risk-free interest rate.',
       interpretation: 'A rho of 0.1 means a 1% rate change impacts the option value by $0.10.'
+    },
+    rhoForeign: {
+      title: 'Foreign Rho (ρf)',
+      description: 'Measures sensitivity to the foreign interest rate (or dividend yield for equities).',
+      interpretation: 'A foreign rho of -0.2 means a 1% rise in the foreign rate lowers the option value by $0.20.'
+    },
+    vanna: {
+      title: 'Vanna',
+      description: 'Measures the rate of change in delta with respect to volatility.',
+      interpretation: 'A vanna of -0.3 means a 1% rise in vol lowers delta by 0.003.'
+    },
+    volga: {
+      title: 'Volga (Vomma)',
+      description: 'Measures the rate of change in vega with respect to volatility.',
+      interpretation: 'A volga of 10 means a 1% rise in vol increases vega by 0.10.'
+    },
+    charm: {
+      title: 'Charm (Delta Decay)',
+      description: 'Measures the rate of change in delta as time passes.',
+      interpretation: 'A charm of 0.02 means delta rises by about 0.00005 per day, all else equal.'
+    },
+    speed: {
+      title: 'Speed',
+      description: 'Measures the rate of change in gamma with respect to the underlying price.',
+      interpretation: 'A speed of -0.0004 means a $1 rise in the underlying lowers gamma by 0.0004.'
+    },
+    color: {
+      title: 'Color (Gamma Decay)',
+      description: 'Measures the rate of change in gamma as time passes.',
+      interpretation: 'A color of 0.01 means gamma rises by about 0.00003 per day, all else equal.'
+    },
+    zomma: {
+      title: 'Zomma',
+      description: 'Measures the rate of change in gamma with respect to volatility.',
+      interpretation: 'A zomma of -0.06 means a 1% rise in vol lowers gamma by 0.0006.'
     }
   };
 
@@ -289,20 +338,40 @@ export default function PDFReport({
             </Text>
           </View>
           <View style={styles.summaryBox}>
-            <Text style={styles.summaryText}>Total Portfolio Value: {formatCurrency(portfolio.totalValue)}</Text>
+            <Text style={styles.summaryText}>Total Portfolio Value (Net): {formatCurrencyTotals(portfolio, totals => totals.totalValue)}</Text>
+            <Text style={styles.summaryText}>
+              Long Positions: {formatCurrencyTotals(portfolio, totals => totals.valueBySide.long)} (Dollar Delta{' '}
+              {formatCurrencyTotals(portfolio, totals => totals.dollarDeltaBySide.long)})
+            </Text>
+            <Text style={styles.summaryText}>
+              Short Positions: {formatCurrencyTotals(portfolio, totals => totals.valueBySide.short)} (Dollar Delta{' '}
+              {formatCurrencyTotals(portfolio, totals => totals.dollarDeltaBySide.short)})
+            </Text>
             <Text style={styles.summaryText}>Number of Positions: {portfolio.options.length}</Text>
             <Text style={styles.summaryText}>Net Delta: {formatNumber(portfolio.aggregateGreeks.delta)}</Text>
-            <Text style={styles.summaryText}>Net Gamma: {formatNumber(portfolio.aggregateGreeks.gamma)}</Text>
-            <Text style={styles.summaryText}>Net Vega: {formatNumber(portfolio.aggregateGreeks.vega)}</Text>
+            {separateDeltas.map(underlyingType => (
+              <Text key={underlyingType} style={styles.summaryText}>
+                Net {underlyingTypeLabels[underlyingType]} Delta: {formatNumber(portfolio.deltaByUnderlying[underlyingType])}
+              </Text>
+            ))}
+            <Text style={styles.summaryText}>{greekLabelWithUnit('Net Gamma', 'gamma', greekConventions)}: {formatNumber(portfolio.aggregateGreeks.gamma)}</Text>
+            <Text style={styles.summaryText}>{greekLabelWithUnit('Net Vega', 'vega', greekConventions)}: {formatNumber(portfolio.aggregateGreeks.vega)}</Text>
+            <Text style={styles.summaryText}>Dollar Delta: {formatCurrencyTotals(portfolio, totals => totals.dollarGreeks.delta)}</Text>
+            <Text style={styles.summaryText}>Dollar Gamma (per 1% move): {formatCurrencyTotals(portfolio, totals => totals.dollarGreeks.gamma)}</Text>
+            <Text style={styles.summaryText}>Vega per Vol Point: {formatCurrencyTotals(portfolio, totals => totals.dollarGreeks.vega)}</Text>
+            <Text style={styles.summaryText}>Theta per Calendar Day: {formatCurrencyTotals(portfolio, totals => totals.dollarGreeks.theta)}</Text>
           </View>
           <View style={styles.explanationBox}>
             <Text style={styles.explanationTitle}>Understanding the Metrics</Text>
             <Text style={styles.explanationText}>
-              • Total Portfolio Value: The current market value of all your options combined{'\n'}
+              • Total Portfolio Value: The current market value of all your options combined, with options you have written (short positions) counted as negative{'\n'}
+              • Long and Short Positions: The value and dollar delta of the options you hold and of those you have written, shown separately{'\n'}
               • Number of Positions: Total count of different options in your portfolio{'\n'}
               • Net Delta: How much your portfolio value changes when stock prices change (higher number = more sensitive){'\n'}
               • Net Gamma: How fast your delta changes (higher number = faster changes in sensitivity){'\n'}
-              • Net Vega: How sensitive your portfolio is to market volatility changes
+              • Net Vega: How sensitive your portfolio is to market volatility changes{'\n'}
+              • Dollar Greeks: The same sensitivities in dollars, counting the multiplier of every contract (usually 100 shares): the stock position your delta is equivalent to, how much that changes on a 1% move, what a 1 point rise in volatility is worth and what one calendar day of time decay costs{'\n'}
+              • Currencies: Currency options are valued in the second currency of their pair, so values and dollar Greeks are totalled separately for each currency held
             </Text>
           </View>
         </View>
@@ -313,11 +382,13 @@ export default function PDFReport({
           <Text style={styles.explanationText}>
             This table shows each option in your portfolio. Here's what each column means:{'\n'}
             • Ticker: The stock symbol (e.g., AAPL for Apple){'\n'}
-            • Type: Whether it's a Call (right to buy) or Put (right to sell){'\n'}
+            • Type: Whether it's a Call (right to buy) or Put (right to sell), or a digital paying a fixed amount (cash-or-nothing) or the stock (asset-or-nothing) if it finishes in the money{'\n'}
             • Strike: The price at which you can buy/sell the stock{'\n'}
             • Expiry: Time until the option expires (in years){'\n'}
-            • Value: Current market value of this position{'\n'}
-            • Delta: How much this position's value changes with the stock price
+            • Qty: Number of contracts, negative for options you have written{'\n'}
+            • Value: Current market value of this position (negative when short){'\n'}
+            • Delta: How much the option value moves per 1 change in the stock price{'\n'}
+            • $ Delta, $ Gamma, Vega/Pt, Theta/Day: The dollar Greeks of the whole position, as in the summary above
           </Text>
         </View>
         <View style={styles.table}>
@@ -326,17 +397,34 @@ export default function PDFReport({
             <Text style={styles.tableCell}>Type</Text>
             <Text style={styles.tableCell}>Strike</Text>
             <Text style={styles.tableCell}>Expiry</Text>
+            <Text style={styles.tableCell}>Qty</Text>
             <Text style={styles.tableCell}>Value</Text>
             <Text style={styles.tableCell}>Delta</Text>
+            <Text style={styles.tableCell}>$ Delta</Text>
+            <Text style={styles.tableCell}>$ Gamma</Text>
+            <Text style={styles.tableCell}>Vega/Pt</Text>
+            <Text style={styles.tableCell}>Theta/Day</Text>
           </View>
           {portfolio.options.map((option, index) => (
             <View key={index} style={styles.tableRow}>
               <Text style={styles.tableCell}>{option.ticker}</Text>
-              <Text style={styles.tableCell}>{option.type}</Text>
-              <Text style={styles.tableCell}>{formatCurrency(option.strikePrice)}</Text>
+              <Text style={styles.tableCell}>
+                {optionTypeLabels[option.type]}
+                {option.barrierType && option.barrierLevel !== undefined &&
+                  ` (${barrierTypeLabels[option.barrierType]} ${formatNumber(option.barrierLevel, 2)})`}
+                {option.averageType && ` (${averageTypeLabels[option.averageType]})`}
+              </Text>
+              <Text style={styles.tableCell}>
+                {option.averageType === 'strike' ? 'Average' : formatCurrency(option.strikePrice, positionCurrency(option))}
+              </Text>
               <Text style={styles.tableCell}>{formatNumber(option.timeToExpiry, 2)}</Text>
-              <Text style={styles.tableCell}>{formatCurrency(option.totalValue)}</Text>
+              <Text style={styles.tableCell}>{option.quantity}</Text>
+              <Text style={styles.tableCell}>{formatCurrency(option.totalValue, positionCurrency(option))}</Text>
               <Text style={styles.tableCell}>{formatNumber(option.greeks.delta)}</Text>
+              <Text style={styles.tableCell}>{formatCurrency(option.dollarGreeks.delta, positionCurrency(option))}</Text>
+              <Text style={styles.tableCell}>{formatCurrency(option.dollarGreeks.gamma, positionCurrency(option))}</Text>
+              <Text style={styles.tableCell}>{formatCurrency(option.dollarGreeks.vega, positionCurrency(option))}</Text>
+              <Text style={styles.tableCell}>{formatCurrency(option.dollarGreeks.theta, positionCurrency(option))}</Text>
             </View>
           ))}
         </View>
@@ -345,10 +433,12 @@ export default function PDFReport({
           <View style={styles.greekAnalysis}>
             <Text style={styles.subHeader}>Greeks Surface Analysis</Text>
             <View style={styles.explanationBox}>
-              <Text style={styles.explanationTitle}>{greekDescriptions[selectedGreek].title} Analysis</Text>
+              <Text style={styles.explanationTitle}>
+                {greekLabelWithUnit(greekDescriptions[selectedGreek].title, selectedGreek, greekConventions)} Analysis
+              </Text>
               <Text style={styles.explanationText}>
                 {greekDescriptions[selectedGreek].description}{'\n'}
-                {greekDescriptions[selectedGreek].interpretation}
+                {greekInterpretations(greekConventions)[selectedGreek] ?? greekDescriptions[selectedGreek].interpretation}
               </Text>
             </View>
             
@@ -449,9 +539,26 @@ export default function PDFReport({
             <View style={styles.summaryBox}>
               <Text style={styles.summaryText}>Spot Price Change: {formatPercentage(stressTestResults.spotPriceChange / 100)}</Text>
               <Text style={styles.summaryText}>Volatility Change: {formatPercentage(stressTestResults.volatilityChange / 100)}</Text>
-              <Text style={styles.summaryText}>Rate Change: {formatPercentage(stressTestResults.rateChange / 100)}</Text>
-              <Text style={styles.summaryText}>Value Impact: {formatChange(stressTestResults.stressedPortfolio.totalValue, portfolio.totalValue)}</Text>
+              <Text style={styles.summaryText}>
+                Rate Shock ({curveShockTypeLabels[stressTestResults.curveShock]}
+                {stressTestResults.keyRateTenor !== undefined ? ` ${stressTestResults.keyRateTenor}Y` : ''}): {formatPercentage(stressTestResults.rateChange / 100)}
+              </Text>
+              <Text style={styles.summaryText}>Dividend Yield Change: {formatPercentage(stressTestResults.dividendYieldChange / 100)}</Text>
+              {separateDeltas.includes('fx') && (
+                <Text style={styles.summaryText}>Foreign Rate Change: {formatPercentage(stressTestResults.foreignRateChange / 100)}</Text>
+              )}
+              {Object.entries(portfolio.totalsByCurrency).map(([currency, totals], _, currencies) => (
+                <Text key={currency} style={styles.summaryText}>
+                  Value Impact{currencies.length > 1 ? ` (${currency})` : ''}:{' '}
+                  {formatChange(stressTestResults.stressedPortfolio.totalsByCurrency[currency]?.totalValue ?? 0, totals.totalValue)}
+                </Text>
+              ))}
               <Text style={styles.summaryText}>Delta Impact: {formatChange(stressTestResults.stressedPortfolio.aggregateGreeks.delta, portfolio.aggregateGreeks.delta)}</Text>
+              {separateDeltas.map(underlyingType => (
+                <Text key={underlyingType} style={styles.summaryText}>
+                  {underlyingTypeLabels[underlyingType]} Delta Impact: {formatChange(stressTestResults.stressedPortfolio.deltaByUnderlying[underlyingType], portfolio.deltaByUnderlying[underlyingType])}
+                </Text>
+              ))}
             </View>
             <View style={styles.explanationBox}>
               <Text style={styles.explanationTitle}>Understanding the Results</Text>
@@ -459,6 +566,7 @@ export default function PDFReport({
                 • Spot Price Change: How much stock prices changed in the test{'\n'}
                 • Volatility Change: How much market uncertainty changed{'\n'}
                 • Rate Change: How much interest rates changed{'\n'}
+                • Dividend Yield Change: How much expected dividend payouts changed{'\n'}
                 • Value Impact: How your portfolio value would change{'\n'}
                 • Delta Impact: How your portfolio's price sensitivity would change
               </Text>
@@ -1,7 +1,11 @@
 import { useMemo } from 'react';
 import dynamic from 'next/dynamic';
-import { Portfolio, Option, OptionMetrics } from '@/types/option';
-import { calculateOptionMetrics } from '@/lib/utils/blackScholes';
+import { Portfolio, Option, OptionMetrics, PositionSide } from '@/types/option';
+import { calculateOptionMetrics, positionSide, positionSideLabels } from '@/lib/utils/pricingEngine';
+import { positionUnits } from '@/lib/utils/dollarGreeks';
+import { positionCurrency } from '@/lib/utils/garmanKohlhagen';
+import { removeGreekConventions } from '@/lib/utils/greekConventions';
+import { usePricing } from '@/lib/hooks/usePricing';
 
 const Plot = dynamic(() => import('react-plotly.js'), { ssr: false });
 
@@ -21,56 +25,94 @@ interface PnLComponents {
   total: number;
 }
 
+const ZERO_PNL: PnLComponents = {
+  delta: 0,
+  gamma: 0,
+  theta: 0,
+  vega: 0,
+  rho: 0,
+  unexplained: 0,
+  total: 0
+};
+
+function formatCurrency(value: number, currency: string = 'USD'): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  }).format(value);
+}
+
 export default function PnLAttribution({ portfolio, previousPortfolio, timeElapsed = 1 }: PnLAttributionProps) {
+  const { settings } = usePricing();
+
+  // P&L is in each position's currency, and amounts in different currencies
+  // don't add up, so it is attributed per currency
   const pnlAttribution = useMemo(() => {
     if (!previousPortfolio) return null;
 
-    const attribution: PnLComponents = {
-      delta: 0,
-      gamma: 0,
-      theta: 0,
-      vega: 0,
-      rho: 0,
-      unexplained: 0,
-      total: 0
-    };
-
-    // Calculate total P&L
-    attribution.total = portfolio.totalValue - previousPortfolio.totalValue;
+    const byCurrency: Record<string, PnLComponents> = {};
 
     // Calculate P&L components for each option
     portfolio.options.forEach((currentOption, index) => {
       const prevOption = previousPortfolio.options[index];
       if (!prevOption) return;
+      const currency = positionCurrency(prevOption);
+      const attribution = byCurrency[currency] ??= { ...ZERO_PNL };
+
+      // Calculate total P&L
+      attribution.total += currentOption.totalValue - prevOption.totalValue;
 
       // Price changes
       const spotChange = currentOption.spotPrice - prevOption.spotPrice;
       const volChange = currentOption.volatility - prevOption.volatility;
       const rateChange = currentOption.riskFreeRate - prevOption.riskFreeRate;
 
+      // Greeks of the position held over the period, signed so shorts earn
+      // theta and lose on gamma
+      const units = positionUnits(prevOption);
+      // The expansion is in raw moves, so the Greeks go back to the pricers' units
+      const greeks = removeGreekConventions(prevOption.greeks, settings.greekConventions, prevOption.spotPrice);
+
       // First-order effects
-      attribution.delta += prevOption.greeks.delta * spotChange * currentOption.quantity;
-      attribution.theta += prevOption.greeks.theta * (timeElapsed / 365) * currentOption.quantity;
-      attribution.vega += prevOption.greeks.vega * volChange * currentOption.quantity;
-      attribution.rho += prevOption.greeks.rho * rateChange * currentOption.quantity;
+      attribution.delta += greeks.delta * spotChange * units;
+      attribution.theta += greeks.theta * (timeElapsed / 365) * units;
+      attribution.vega += greeks.vega * volChange * units;
+      attribution.rho += greeks.rho * rateChange * units;
 
       // Second-order effect
-      attribution.gamma += 0.5 * prevOption.greeks.gamma * spotChange * spotChange * currentOption.quantity;
+      attribution.gamma += 0.5 * greeks.gamma * spotChange * spotChange * units;
     });
 
     // Calculate unexplained P&L
-    attribution.unexplained = attribution.total - (
-      attribution.delta +
-      attribution.gamma +
-      attribution.theta +
-      attribution.vega +
-      attribution.rho
-    );
+    Object.values(byCurrency).forEach(attribution => {
+      attribution.unexplained = attribution.total - (
+        attribution.delta +
+        attribution.gamma +
+        attribution.theta +
+        attribution.vega +
+        attribution.rho
+      );
+    });
+
+    return byCurrency;
+  }, [portfolio, previousPortfolio, timeElapsed, settings.greekConventions]);
 
-    return attribution;
-  }, [portfolio, previousPortfolio, timeElapsed]);
+  // Total P&L of the long and of the short positions held at the start
+  const pnlBySide = useMemo(() => {
+    if (!previousPortfolio) return null;
+    const bySide: Record<string, Record<PositionSide, number>> = {};
+    portfolio.options.forEach((currentOption, index) => {
+      const prevOption = previousPortfolio.options[index];
+      if (!prevOption) return;
+      const sides = bySide[positionCurrency(prevOption)] ??= { long: 0, short: 0 };
+      sides[positionSide(prevOption)] += currentOption.totalValue - prevOption.totalValue;
+    });
+    return bySide;
+  }, [portfolio, previousPortfolio]);
 
-  if (!pnlAttribution) {
+  if (!pnlAttribution || !pnlBySide) {
     return (
       <div className="p-6 text-center text-gray-500">
         No previous portfolio data available for P&L attribution
@@ -78,85 +120,108 @@ export default function PnLAttribution({ portfolio, previousPortfolio, timeElaps
     );
   }
 
+  const currencies = Object.keys(pnlAttribution);
+  const inCurrency = (title: string, currency: string) => currencies.length > 1 ? `${title} (${currency})` : title;
+
   // Prepare data for waterfall chart
-  const components = [
-    { name: 'Delta', value: pnlAttribution.delta },
-    { name: 'Gamma', value: pnlAttribution.gamma },
-    { name: 'Theta', value: pnlAttribution.theta },
-    { name: 'Vega', value: pnlAttribution.vega },
-    { name: 'Rho', value: pnlAttribution.rho },
-    { name: 'Unexplained', value: pnlAttribution.unexplained },
-    { name: 'Total', value: pnlAttribution.total }
-  ];
-
-  const formatCurrency = (value: number) => 
-    new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(value);
+  const componentsIn = (currency: string) => {
+    const attribution = pnlAttribution[currency];
+    return [
+      { name: 'Delta', value: attribution.delta },
+      { name: 'Gamma', value: attribution.gamma },
+      { name: 'Theta', value: attribution.theta },
+      { name: 'Vega', value: attribution.vega },
+      { name: 'Rho', value: attribution.rho },
+      { name: 'Unexplained', value: attribution.unexplained },
+      { name: 'Total', value: attribution.total }
+    ];
+  };
 
   return (
     <div className="space-y-6">
-      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
-        {components.map(({ name, value }) => (
-          <div
-            key={name}
-            className="bg-white p-4 rounded-lg border border-gray-200"
-          >
-            <h3 className="text-sm font-medium text-gray-500">{name} P&L</h3>
-            <p className={`text-lg font-semibold mt-1 ${value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-              {formatCurrency(value)}
-            </p>
+      {currencies.map(currency => {
+        const components = componentsIn(currency);
+        return (
+          <div key={currency} className="space-y-6">
+            {currencies.length > 1 && (
+              <h3 className="text-lg font-semibold">{currency}</h3>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {components.map(({ name, value }) => (
+                <div
+                  key={name}
+                  className="bg-white p-4 rounded-lg border border-gray-200"
+                >
+                  <h3 className="text-sm font-medium text-gray-500">{name} P&L</h3>
+                  <p className={`text-lg font-semibold mt-1 ${value >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(value, currency)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(Object.keys(positionSideLabels) as PositionSide[]).map(side => (
+                <div
+                  key={side}
+                  className="bg-white p-4 rounded-lg border border-gray-200"
+                >
+                  <h3 className="text-sm font-medium text-gray-500">{positionSideLabels[side]} Positions P&L</h3>
+                  <p className={`text-lg font-semibold mt-1 ${pnlBySide[currency][side] >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(pnlBySide[currency][side], currency)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div className="h-[400px]">
+              <Plot
+                data={[
+                  {
+                    type: 'waterfall',
+                    name: 'P&L Attribution',
+                    orientation: 'v',
+                    measure: components.map((_, i) => i === components.length - 1 ? 'total' : 'relative'),
+                    x: components.map(c => c.name),
+                    y: components.map(c => c.value),
+                    connector: {
+                      line: {
+                        color: 'rgb(63, 63, 63)'
+                      }
+                    },
+                    decreasing: {
+                      marker: { color: 'rgb(239, 68, 68)' }
+                    },
+                    increasing: {
+                      marker: { color: 'rgb(34, 197, 94)' }
+                    },
+                    totals: {
+                      marker: { color: 'rgb(59, 130, 246)' }
+                    }
+                  }
+                ]}
+                layout={{
+                  title: inCurrency('P&L Attribution Analysis', currency),
+                  showlegend: false,
+                  xaxis: {
+                    title: 'Components',
+                    type: 'category'
+                  },
+                  yaxis: {
+                    title: `P&L (${currency})`,
+                    tickformat: ',.2f'
+                  },
+                  margin: { t: 30 },
+                  autosize: true
+                }}
+                useResizeHandler={true}
+                style={{ width: '100%', height: '100%' }}
+              />
+            </div>
           </div>
-        ))}
-      </div>
-
-      <div className="h-[400px]">
-        <Plot
-          data={[
-            {
-              type: 'waterfall',
-              name: 'P&L Attribution',
-              orientation: 'v',
-              measure: components.map((_, i) => i === components.length - 1 ? 'total' : 'relative'),
-              x: components.map(c => c.name),
-              y: components.map(c => c.value),
-              connector: {
-                line: {
-                  color: 'rgb(63, 63, 63)'
-                }
-              },
-              decreasing: {
-                marker: { color: 'rgb(239, 68, 68)' }
-              },
-              increasing: {
-                marker: { color: 'rgb(34, 197, 94)' }
-              },
-              totals: {
-                marker: { color: 'rgb(59, 130, 246)' }
-              }
-            }
-          ]}
-          layout={{
-            title: 'P&L Attribution Analysis',
-            showlegend: false,
-            xaxis: {
-              title: 'Components',
-              type: 'category'
-            },
-            yaxis: {
-              title: 'P&L ($)',
-              tickformat: '$.2f'
-            },
-            margin: { t: 30 },
-            autosize: true
-          }}
-          useResizeHandler={true}
-          style={{ width: '100%', height: '100%' }}
-        />
-      </div>
+        );
+      })}
 
       <div className="bg-blue-50 p-4 rounded-lg">
         <h3 className="text-sm font-medium text-blue-800 mb-2">Understanding P&L Attribution</h3>
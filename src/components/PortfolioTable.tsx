@@ -1,4 +1,21 @@
-import { OptionMetrics, Portfolio } from '@/types/option';
+import { useEffect, useState } from 'react';
+import { CurrencyTotals, DollarGreeks, FXPremiumQuote, OptionGreeks, OptionMetrics, Portfolio, PositionSide } from '@/types/option';
+import {
+  optionTypeLabels,
+  positionSide,
+  positionSideLabels,
+  simulateOption,
+  separateDeltaUnderlyings,
+  underlyingTypeLabels
+} from '@/lib/utils/pricingEngine';
+import { barrierTypeLabels, isBarrierBreached, isKnockIn } from '@/lib/utils/barrier';
+import { averageTypeLabels } from '@/lib/utils/asian';
+import { MonteCarloResult } from '@/lib/utils/monteCarlo';
+import { pricingDiagnosticLabels } from '@/lib/utils/zeroVariance';
+import { contractMultiplier, positionUnits } from '@/lib/utils/dollarGreeks';
+import { greekLabelWithUnit } from '@/lib/utils/greekConventions';
+import { usePricing } from '@/lib/hooks/usePricing';
+import { domesticCurrency, foreignCurrency, fxPremiumQuoteLabels, pipSize, positionCurrency, quoteFXPremium } from '@/lib/utils/garmanKohlhagen';
 
 interface PortfolioTableProps {
   portfolio: Portfolio;
@@ -8,39 +25,200 @@ function formatNumber(value: number, decimals: number = 4): string {
   return value.toFixed(decimals);
 }
 
-function formatCurrency(value: number): string {
+function formatCurrency(value: number, currency: string = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD'
+    currency
   }).format(value);
 }
 
+// Option prices in their market convention; FX premiums follow the selected quote
+function formatPremium(price: number, option: OptionMetrics, quote: FXPremiumQuote): string {
+  if (option.underlyingType !== 'fx' || !option.currencyPair) return formatCurrency(price);
+
+  const value = quoteFXPremium(price, option, quote);
+  switch (quote) {
+    case 'pips':
+      return `${value.toFixed(1)} pips`;
+    case 'percentForeign':
+      return `${value.toFixed(3)}% ${foreignCurrency(option.currencyPair)}`;
+    case 'domestic':
+      return formatCurrency(value, domesticCurrency(option.currencyPair));
+  }
+}
+
+// FX strikes are exchange rates, quoted to the pip; average-strike options strike at the average
+function formatStrike(option: OptionMetrics): string {
+  if (option.averageType === 'strike') return 'Average';
+  if (option.underlyingType !== 'fx' || !option.currencyPair) return formatCurrency(option.strikePrice);
+  return option.strikePrice.toFixed(Math.round(-Math.log10(pipSize(option.currencyPair))));
+}
+
+// Position values are in the domestic currency of FX pairs
+function formatValue(value: number, option: OptionMetrics): string {
+  return formatCurrency(value, positionCurrency(option));
+}
+
+// A book total as one figure per currency, since amounts in different
+// currencies don't add up
+function CurrencyFigures({ amounts, className }: { amounts: Record<string, number>; className: string }) {
+  const figures = Object.entries(amounts);
+  return (
+    <>
+      {(figures.length > 0 ? figures : [['USD', 0] as const]).map(([currency, amount]) => (
+        <p key={currency} className={className}>{formatCurrency(amount, currency)}</p>
+      ))}
+    </>
+  );
+}
+
 function formatPercentage(value: number): string {
   return `${(value * 100).toFixed(2)}%`;
 }
 
+// Position Greeks in currency, shown as cards for the book and columns per position
+const dollarGreekColumns: { key: keyof DollarGreeks; label: string }[] = [
+  { key: 'delta', label: '$ Delta' },
+  { key: 'gamma', label: '$ Gamma (1%)' },
+  { key: 'vega', label: 'Vega / Vol Pt' },
+  { key: 'theta', label: 'Theta / Day' }
+];
+
+// Optional columns for the second- and third-order Greeks
+const higherOrderGreeks: { key: keyof OptionGreeks; label: string }[] = [
+  { key: 'vanna', label: 'Vanna' },
+  { key: 'volga', label: 'Volga' },
+  { key: 'charm', label: 'Charm' },
+  { key: 'speed', label: 'Speed' },
+  { key: 'color', label: 'Color' },
+  { key: 'zomma', label: 'Zomma' }
+];
+
+// Monte Carlo price with its 95% half-width, highlighted when the closed-form
+// price falls outside the interval. The simulation is Black-Scholes, so Heston
+// positions are checked against their flat-volatility value.
+function MonteCarloCheck({ check, option, quote }: { check: MonteCarloResult | null; option: OptionMetrics; quote: FXPremiumQuote }) {
+  if (!check) return <span title="Barriers, early exercise, normal volatility and positions with no variance left are not simulated">n/a</span>;
+
+  const [lower, upper] = check.confidenceInterval;
+  const closedForm = option.blackScholesPrice ?? option.price;
+  const outside = closedForm < lower || closedForm > upper;
+
+  return (
+    <span
+      title={`${check.paths.toLocaleString()} paths, 95% confidence interval`}
+      className={outside ? 'text-amber-700' : undefined}
+    >
+      {formatPremium(check.price.value, option, quote)} ± {formatNumber(upper - check.price.value)}
+    </span>
+  );
+}
+
 export default function PortfolioTable({ portfolio }: PortfolioTableProps) {
-  const { options, totalValue, aggregateGreeks } = portfolio;
+  const { options, aggregateGreeks, deltaByUnderlying, totalsByCurrency } = portfolio;
+  const byCurrency = (amount: (totals: CurrencyTotals) => number) => Object.fromEntries(
+    Object.entries(totalsByCurrency).map(([currency, totals]) => [currency, amount(totals)])
+  );
+  const { settings } = usePricing();
+  const unitLabel = (label: string, greek: keyof OptionGreeks) => greekLabelWithUnit(label, greek, settings.greekConventions);
+  const separateDeltas = separateDeltaUnderlyings(options);
+  const hasFX = separateDeltas.includes('fx');
+  // Set on positions priced by Heston, to compare against flat volatility
+  const hasHeston = options.some(option => option.blackScholesPrice !== undefined);
+  const hestonDifference: Record<string, number> = {};
+  options.forEach(option => {
+    if (option.blackScholesPrice === undefined) return;
+    const currency = positionCurrency(option);
+    hestonDifference[currency] = (hestonDifference[currency] ?? 0) +
+      (option.price - option.blackScholesPrice) * positionUnits(option);
+  });
+  const [showHigherOrder, setShowHigherOrder] = useState(false);
+  const [fxQuote, setFXQuote] = useState<FXPremiumQuote>('pips');
+
+  // Monte Carlo checks run on demand, keyed by row, and are dropped when the book reprices
+  const [monteCarloChecks, setMonteCarloChecks] = useState<Record<number, MonteCarloResult | null>>({});
+  useEffect(() => setMonteCarloChecks({}), [options]);
+
+  const runMonteCarloCheck = (option: OptionMetrics, index: number) => {
+    setMonteCarloChecks(checks => ({ ...checks, [index]: simulateOption(option) }));
+  };
 
   return (
     <div>
       <div className="mb-6 grid grid-cols-2 xl:grid-cols-4 gap-4">
         <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
-          <h3 className="text-sm font-medium text-gray-500">Portfolio Value</h3>
-          <p className="text-2xl font-semibold mt-1">{formatCurrency(totalValue)}</p>
+          <h3 className="text-sm font-medium text-gray-500">Portfolio Value (Net)</h3>
+          <CurrencyFigures amounts={byCurrency(totals => totals.totalValue)} className="text-2xl font-semibold mt-1" />
         </div>
+        {(Object.keys(positionSideLabels) as PositionSide[]).map(side => (
+          <div key={side} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+            <h3 className="text-sm font-medium text-gray-500">{positionSideLabels[side]} Value</h3>
+            <CurrencyFigures
+              amounts={byCurrency(totals => totals.valueBySide[side])}
+              className={`text-2xl font-semibold mt-1 ${side === 'short' ? 'text-red-600' : ''}`}
+            />
+            {Object.entries(byCurrency(totals => totals.dollarDeltaBySide[side])).map(([currency, delta]) => (
+              <p key={currency} className="text-xs text-gray-500 mt-1">$ Delta {formatCurrency(delta, currency)}</p>
+            ))}
+          </div>
+        ))}
         <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
-          <h3 className="text-sm font-medium text-gray-500">Net Delta</h3>
+          <h3 className="text-sm font-medium text-gray-500">{separateDeltas.length > 0 ? 'Net Equity Delta' : 'Net Delta'}</h3>
           <p className="text-2xl font-semibold mt-1">{formatNumber(aggregateGreeks.delta)}</p>
         </div>
+        {separateDeltas.map(underlyingType => (
+          <div key={underlyingType} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+            <h3 className="text-sm font-medium text-gray-500">Net {underlyingTypeLabels[underlyingType]} Delta</h3>
+            <p className="text-2xl font-semibold mt-1">{formatNumber(deltaByUnderlying[underlyingType])}</p>
+          </div>
+        ))}
         <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
-          <h3 className="text-sm font-medium text-gray-500">Net Gamma</h3>
+          <h3 className="text-sm font-medium text-gray-500">{unitLabel('Net Gamma', 'gamma')}</h3>
           <p className="text-2xl font-semibold mt-1">{formatNumber(aggregateGreeks.gamma)}</p>
         </div>
         <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
-          <h3 className="text-sm font-medium text-gray-500">Net Vega</h3>
+          <h3 className="text-sm font-medium text-gray-500">{unitLabel('Net Vega', 'vega')}</h3>
           <p className="text-2xl font-semibold mt-1">{formatNumber(aggregateGreeks.vega)}</p>
         </div>
+        {hasHeston && (
+          <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+            <h3 className="text-sm font-medium text-gray-500">Heston vs Black-Scholes</h3>
+            {Object.entries(hestonDifference).map(([currency, difference]) => (
+              <p key={currency} className="text-2xl font-semibold mt-1">{difference >= 0 ? '+' : ''}{formatCurrency(difference, currency)}</p>
+            ))}
+          </div>
+        )}
+        {dollarGreekColumns.map(({ key, label }) => (
+          <div key={key} className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+            <h3 className="text-sm font-medium text-gray-500">{label}</h3>
+            <CurrencyFigures amounts={byCurrency(totals => totals.dollarGreeks[key])} className="text-2xl font-semibold mt-1" />
+          </div>
+        ))}
+      </div>
+
+      <div className="mb-2 flex justify-end gap-6">
+        {hasFX && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            FX premium
+            <select
+              value={fxQuote}
+              onChange={(e) => setFXQuote(e.target.value as FXPremiumQuote)}
+              className="px-2 py-1 border rounded-md text-sm"
+            >
+              {(Object.keys(fxPremiumQuoteLabels) as FXPremiumQuote[]).map(quote => (
+                <option key={quote} value={quote}>{fxPremiumQuoteLabels[quote]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showHigherOrder}
+            onChange={(e) => setShowHigherOrder(e.target.checked)}
+          />
+          Show higher-order Greeks
+        </label>
       </div>
 
       <div className="overflow-x-auto rounded-lg border border-gray-200">
@@ -54,33 +232,138 @@ export default function PortfolioTable({ portfolio }: PortfolioTableProps) {
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Strike</th>
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Expiry</th>
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Price</th>
+                  {hasHeston && (
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">BS Price</th>
+                  )}
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Market</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Early Ex. Premium</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">MC Check</th>
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Qty</th>
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Value</th>
+                  {dollarGreekColumns.map(({ key, label }) => (
+                    <th key={key} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">{label}</th>
+                  ))}
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Delta</th>
-                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Gamma</th>
-                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Theta</th>
-                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Vega</th>
-                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">Rho</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">{unitLabel('Gamma', 'gamma')}</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">{unitLabel('Theta', 'theta')}</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">{unitLabel('Vega', 'vega')}</th>
+                  <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">{unitLabel('Rho', 'rho')}</th>
+                  {hasFX && (
+                    <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">{unitLabel('Foreign Rho', 'rhoForeign')}</th>
+                  )}
+                  {showHigherOrder && higherOrderGreeks.map(({ key, label }) => (
+                    <th key={key} scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">{label}</th>
+                  ))}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {options.map((option: OptionMetrics, index: number) => (
                   <tr 
                     key={`${option.ticker}-${option.type}-${option.strikePrice}-${index}`}
-                    className="hover:bg-gray-50 transition-colors"
+                    className={`${option.impliedVolError ? 'bg-red-50' : ''} hover:bg-gray-50 transition-colors`}
                   >
                     <td className="px-4 py-2.5 text-sm font-medium text-gray-900 whitespace-nowrap">{option.ticker}</td>
-                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{option.type}</td>
-                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatCurrency(option.strikePrice)}</td>
-                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatNumber(option.timeToExpiry, 2)}</td>
-                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatCurrency(option.price)}</td>
-                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{option.quantity}</td>
-                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatCurrency(option.totalValue)}</td>
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">
+                      {optionTypeLabels[option.type]}
+                      {option.cashPayout !== undefined && (option.type === 'CashOrNothingCall' || option.type === 'CashOrNothingPut') && (
+                        <span className="ml-1 text-xs text-gray-400">(pays {formatCurrency(option.cashPayout)})</span>
+                      )}
+                      {option.exerciseStyle === 'American' && <span className="ml-1 text-xs text-gray-400">(Am)</span>}
+                      {option.underlyingType === 'future' && <span className="ml-1 text-xs text-gray-400">(Fut)</span>}
+                      {option.underlyingType === 'fx' && <span className="ml-1 text-xs text-gray-400">(FX)</span>}
+                      {option.volatilityType === 'normal' && (
+                        <span className="ml-1 text-xs text-gray-400" title={`Normal volatility ${formatNumber(option.volatility)}`}>(Normal)</span>
+                      )}
+                      {option.averageType && (
+                        <span className="ml-1 text-xs text-gray-400">
+                          ({averageTypeLabels[option.averageType]}, {option.fixingsTaken ?? 0}/{(option.fixingsTaken ?? 0) + (option.fixingTimes?.length ?? 0)} fixed)
+                        </span>
+                      )}
+                      {option.barrierType && option.barrierLevel !== undefined && (
+                        <span className="ml-1 text-xs text-gray-400">
+                          ({barrierTypeLabels[option.barrierType]} {formatNumber(option.barrierLevel, 2)}
+                          {isBarrierBreached(option.spotPrice, { type: option.barrierType, level: option.barrierLevel, rebate: option.rebate ?? 0 }) &&
+                            (isKnockIn(option.barrierType) ? ', knocked in' : ', knocked out')})
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatStrike(option)}</td>
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">
+                      {option.expiryDate
+                        ? <span title={`${formatNumber(option.timeToExpiry, 4)} years`}>{option.expiryDate}</span>
+                        : formatNumber(option.timeToExpiry, 2)}
+                    </td>
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">
+                      {formatPremium(option.price, option, fxQuote)}
+                      {option.diagnostics && (
+                        <span
+                          className="ml-1 text-xs text-amber-700"
+                          title={option.diagnostics.map(diagnostic => pricingDiagnosticLabels[diagnostic]).join('\n')}
+                        >
+                          (limit)
+                        </span>
+                      )}
+                    </td>
+                    {hasHeston && (
+                      <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">
+                        {option.blackScholesPrice !== undefined ? (
+                          <>
+                            {formatPremium(option.blackScholesPrice, option, fxQuote)}
+                            <span className="ml-1 text-xs text-gray-400">
+                              ({option.price >= option.blackScholesPrice ? '+' : ''}{formatNumber(option.price - option.blackScholesPrice)})
+                            </span>
+                          </>
+                        ) : '—'}
+                      </td>
+                    )}
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">
+                      {option.marketPrice !== undefined ? formatPremium(option.marketPrice, option, fxQuote) : '—'}
+                      {option.impliedVolError && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 text-xs font-medium text-red-700 bg-red-100 rounded"
+                          title={option.impliedVolError}
+                        >
+                          IV failed
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">
+                      {option.earlyExercisePremium !== undefined ? formatPremium(option.earlyExercisePremium, option, fxQuote) : '—'}
+                    </td>
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">
+                      {index in monteCarloChecks ? (
+                        <MonteCarloCheck check={monteCarloChecks[index]} option={option} quote={fxQuote} />
+                      ) : (
+                        <button
+                          onClick={() => runMonteCarloCheck(option, index)}
+                          className="text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Run
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">
+                      <span className={positionSide(option) === 'short' ? 'text-red-600' : undefined}>{option.quantity}</span>
+                      {positionSide(option) === 'short' && <span className="ml-1 text-xs text-red-600">(Short)</span>}
+                      {contractMultiplier(option) !== 1 && (
+                        <span className="ml-1 text-xs text-gray-400" title="Contract multiplier">×{contractMultiplier(option)}</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatValue(option.totalValue, option)}</td>
+                    {dollarGreekColumns.map(({ key }) => (
+                      <td key={key} className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatValue(option.dollarGreeks[key], option)}</td>
+                    ))}
                     <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatNumber(option.greeks.delta)}</td>
                     <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatNumber(option.greeks.gamma)}</td>
                     <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatNumber(option.greeks.theta)}</td>
                     <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatNumber(option.greeks.vega)}</td>
                     <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatNumber(option.greeks.rho)}</td>
+                    {hasFX && (
+                      <td className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatNumber(option.greeks.rhoForeign)}</td>
+                    )}
+                    {showHigherOrder && higherOrderGreeks.map(({ key }) => (
+                      <td key={key} className="px-4 py-2.5 text-sm text-gray-500 whitespace-nowrap">{formatNumber(option.greeks[key])}</td>
+                    ))}
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import dynamic from 'next/dynamic';
+import { CalibrationMarket, SabrSmile, VolSurfaceData } from '@/types/option';
+import { calibrateSabr, DEFAULT_SABR_BETA, sabrImpliedVolatility } from '@/lib/utils/sabr';
+
+// Dynamically import Plotly to avoid SSR issues
+const Plot = dynamic(() => import('react-plotly.js'), { ssr: false });
+
+interface SabrSmilesProps {
+  surface: VolSurfaceData | null;
+  market: CalibrationMarket;
+  smiles: SabrSmile[] | null;
+  onSmilesChange: (smiles: SabrSmile[] | null) => void;
+}
+
+// One colour per expiry, shared by its quotes and its fitted curve
+const SMILE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#db2777'];
+const CURVE_POINTS = 60;
+
+export default function SabrSmiles({ surface, market, smiles, onSmilesChange }: SabrSmilesProps) {
+  const [beta, setBeta] = useState(DEFAULT_SABR_BETA);
+  const [error, setError] = useState<string | null>(null);
+
+  const fitSmiles = () => {
+    if (!surface) return;
+    try {
+      onSmilesChange(calibrateSabr(surface, market, beta));
+      setError(null);
+    } catch (err) {
+      onSmilesChange(null);
+      setError(err instanceof Error ? err.message : 'SABR calibration failed');
+    }
+  };
+
+  const chartData = () => {
+    if (!surface || !smiles) return [];
+    const minStrike = Math.min(...surface.strikes);
+    const maxStrike = Math.max(...surface.strikes);
+    const curveStrikes = Array.from({ length: CURVE_POINTS }, (_, i) =>
+      minStrike + (maxStrike - minStrike) * i / (CURVE_POINTS - 1)
+    );
+
+    return smiles.flatMap((smile, index) => {
+      const color = SMILE_COLORS[index % SMILE_COLORS.length];
+      const j = surface.maturities.indexOf(smile.maturity);
+      const quotes = surface.strikes
+        .map((strike, i) => ({ strike, volatility: surface.volatilities[j]?.[i] }))
+        .filter(quote => quote.volatility > 0);
+
+      return [
+        {
+          type: 'scatter' as const,
+          mode: 'markers' as const,
+          name: `${smile.maturity}y quotes`,
+          legendgroup: `${smile.maturity}`,
+          x: quotes.map(quote => quote.strike),
+          y: quotes.map(quote => quote.volatility * 100),
+          marker: { color, size: 7 }
+        },
+        {
+          type: 'scatter' as const,
+          mode: 'lines' as const,
+          name: `${smile.maturity}y SABR`,
+          legendgroup: `${smile.maturity}`,
+          x: curveStrikes,
+          y: curveStrikes.map(strike =>
+            sabrImpliedVolatility(smile.forward, strike, smile.maturity, smile.parameters) * 100
+          ),
+          line: { color, width: 2 }
+        }
+      ];
+    });
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-4">SABR Smiles</h3>
+
+      <div className="space-y-4">
+        <div className="flex items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">β (held fixed)</label>
+            <input
+              type="number"
+              min="0"
+              max="1"
+              step="0.1"
+              value={beta}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                if (value >= 0 && value <= 1) setBeta(value);
+              }}
+              className="w-28 px-4 py-2.5 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <button
+            onClick={fitSmiles}
+            disabled={!surface}
+            className="flex-1 bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {surface ? 'Fit SABR Smiles' : 'Upload a volatility surface to fit'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {smiles && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium text-gray-500">Expiry</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">Forward</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">α</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">β</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">ρ</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">ν</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">RMSE</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {smiles.map(smile => (
+                    <tr key={smile.maturity}>
+                      <td className="px-2 py-1 font-medium text-gray-700">{smile.maturity}y</td>
+                      <td className="px-2 py-1 text-right">{smile.forward.toFixed(2)}</td>
+                      <td className="px-2 py-1 text-right">{smile.parameters.alpha.toFixed(4)}</td>
+                      <td className="px-2 py-1 text-right">{smile.parameters.beta.toFixed(2)}</td>
+                      <td className="px-2 py-1 text-right">{smile.parameters.rho.toFixed(4)}</td>
+                      <td className="px-2 py-1 text-right">{smile.parameters.nu.toFixed(4)}</td>
+                      <td className="px-2 py-1 text-right">{(smile.rmse * 100).toFixed(2)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="h-[400px]">
+              <Plot
+                data={chartData()}
+                layout={{
+                  title: 'Volatility Smiles',
+                  xaxis: { title: 'Strike' },
+                  yaxis: { title: 'Implied Volatility (%)' },
+                  margin: { l: 60, r: 20, t: 40, b: 50 },
+                  autosize: true
+                }}
+                useResizeHandler={true}
+                style={{ width: '100%', height: '100%' }}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,74 @@
-import { useState } from 'react';
-import { Option, Portfolio } from '@/types/option';
-import { calculatePortfolioMetrics } from '@/lib/utils/blackScholes';
+import { useEffect, useMemo, useState } from 'react';
+import { CurveShockType, Option, Portfolio, StressTestResults } from '@/types/option';
+import { calculatePortfolioMetrics, separateDeltaUnderlyings, underlyingTypeLabels } from '@/lib/utils/pricingEngine';
+import { curveShockTypeLabels, keyRateTenors, shockRates } from '@/lib/utils/yieldCurve';
+import { usePricing } from '@/lib/hooks/usePricing';
+import { greekLabelWithUnit } from '@/lib/utils/greekConventions';
 
 interface StressParams {
   spotPriceChange: number;
   volatilityChange: number;
   rateChange: number;
+  curveShock: CurveShockType;
+  keyRateTenor?: number;
+  dividendYieldChange: number;
+  foreignRateChange: number;
 }
 
 interface StressTestProps {
   portfolio: Portfolio;
-  onStressTestComplete?: (results: {
-    spotPriceChange: number;
-    volatilityChange: number;
-    rateChange: number;
-    stressedPortfolio: Portfolio;
-  }) => void;
+  onStressTestComplete?: (results: StressTestResults) => void;
 }
 
 export default function StressTest({ portfolio, onStressTestComplete }: StressTestProps) {
+  const { settings } = usePricing();
+  const separateDeltas = separateDeltaUnderlyings(portfolio.options);
+  const keyTenors = keyRateTenors(settings.yieldCurve);
   const [stressParams, setStressParams] = useState<StressParams>({
     spotPriceChange: 0,
     volatilityChange: 0,
-    rateChange: 0
+    rateChange: 0,
+    curveShock: 'parallel',
+    dividendYieldChange: 0,
+    foreignRateChange: 0
   });
 
-  const [stressedPortfolio, setStressedPortfolio] = useState<Portfolio | null>(null);
+  // Scenario from the last run; the stressed book is repriced whenever the
+  // portfolio or pricing model changes
+  const [appliedParams, setAppliedParams] = useState<StressParams | null>(null);
+
+  const stressedPortfolio = useMemo<Portfolio | null>(() => {
+    if (!appliedParams) return null;
+
+    // Rates move by the curve shock at each position's expiry
+    const shocked = shockRates(portfolio.options, {
+      type: appliedParams.curveShock,
+      size: appliedParams.rateChange / 100,
+      keyTenor: appliedParams.keyRateTenor
+    }, keyRateTenors(settings.yieldCurve));
+
+    const stressedOptions: Option[] = shocked.map(option => ({
+      ...option,
+      spotPrice: option.spotPrice * (1 + appliedParams.spotPriceChange / 100),
+      volatility: option.volatility * (1 + appliedParams.volatilityChange / 100),
+      dividendYield: Math.max(0, (option.dividendYield ?? 0) + appliedParams.dividendYieldChange / 100),
+      foreignRate: option.foreignRate !== undefined
+        ? option.foreignRate + appliedParams.foreignRateChange / 100
+        : undefined
+    }));
+
+    return calculatePortfolioMetrics(stressedOptions, settings);
+  }, [portfolio, appliedParams, settings]);
+
+  useEffect(() => {
+    if (appliedParams && stressedPortfolio && onStressTestComplete) {
+      onStressTestComplete({
+        ...appliedParams,
+        stressedPortfolio
+      });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stressedPortfolio]);
 
   const handleParamChange = (param: keyof StressParams, value: string) => {
     const numValue = parseFloat(value) || 0;
@@ -36,22 +79,7 @@ export default function StressTest({ portfolio, onStressTestComplete }: StressTe
   };
 
   const runStressTest = () => {
-    const stressedOptions: Option[] = portfolio.options.map(option => ({
-      ...option,
-      spotPrice: option.spotPrice * (1 + stressParams.spotPriceChange / 100),
-      volatility: option.volatility * (1 + stressParams.volatilityChange / 100),
-      riskFreeRate: option.riskFreeRate + stressParams.rateChange / 100
-    }));
-
-    const newPortfolio = calculatePortfolioMetrics(stressedOptions);
-    setStressedPortfolio(newPortfolio);
-
-    if (onStressTestComplete) {
-      onStressTestComplete({
-        ...stressParams,
-        stressedPortfolio: newPortfolio
-      });
-    }
+    setAppliedParams({ ...stressParams });
   };
 
   const formatChange = (current: number, original: number): string => {
@@ -60,10 +88,10 @@ export default function StressTest({ portfolio, onStressTestComplete }: StressTe
     return `${sign}${change.toFixed(2)}%`;
   };
 
-  const formatCurrency = (value: number): string => {
+  const formatCurrency = (value: number, currency: string = 'USD'): string => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD'
+      currency
     }).format(value);
   };
 
@@ -73,7 +101,7 @@ export default function StressTest({ portfolio, onStressTestComplete }: StressTe
       
       <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
         <div className="xl:col-span-3 space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Spot Price Change (%)
@@ -100,7 +128,44 @@ export default function StressTest({ portfolio, onStressTestComplete }: StressTe
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
-                Interest Rate Change (%)
+                Rate Curve Shock
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={stressParams.curveShock}
+                  onChange={(e) => {
+                    const curveShock = e.target.value as CurveShockType;
+                    setStressParams(prev => ({
+                      ...prev,
+                      curveShock,
+                      keyRateTenor: curveShock === 'keyRate' ? prev.keyRateTenor ?? keyTenors[0] : undefined
+                    }));
+                  }}
+                  className="flex-1 px-3 py-2.5 border rounded-lg text-sm"
+                >
+                  {(Object.keys(curveShockTypeLabels) as CurveShockType[]).map(type => (
+                    <option key={type} value={type}>{curveShockTypeLabels[type]}</option>
+                  ))}
+                </select>
+                {stressParams.curveShock === 'keyRate' && (
+                  <select
+                    value={stressParams.keyRateTenor}
+                    onChange={(e) => setStressParams(prev => ({ ...prev, keyRateTenor: parseFloat(e.target.value) }))}
+                    className="px-3 py-2.5 border rounded-lg text-sm"
+                    title="Key tenor (years)"
+                  >
+                    {keyTenors.map(tenor => (
+                      <option key={tenor} value={tenor}>{tenor}Y</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {stressParams.curveShock === 'steepener' || stressParams.curveShock === 'flattener'
+                  ? '2s10s Spread Change (%)'
+                  : 'Interest Rate Change (%)'}
               </label>
               <input
                 type="number"
@@ -110,6 +175,32 @@ export default function StressTest({ portfolio, onStressTestComplete }: StressTe
                 step="0.25"
               />
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Dividend Yield Change (%)
+              </label>
+              <input
+                type="number"
+                value={stressParams.dividendYieldChange}
+                onChange={(e) => handleParamChange('dividendYieldChange', e.target.value)}
+                className="w-full px-4 py-2.5 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                step="0.25"
+              />
+            </div>
+            {separateDeltas.includes('fx') && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Foreign Rate Change (%)
+                </label>
+                <input
+                  type="number"
+                  value={stressParams.foreignRateChange}
+                  onChange={(e) => handleParamChange('foreignRateChange', e.target.value)}
+                  className="w-full px-4 py-2.5 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  step="0.25"
+                />
+              </div>
+            )}
           </div>
 
           <button
@@ -124,13 +215,21 @@ export default function StressTest({ portfolio, onStressTestComplete }: StressTe
           <div className="xl:col-span-1">
             <h3 className="text-lg font-medium mb-4">Results Summary</h3>
             <div className="space-y-4">
-              <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-                <h4 className="text-sm font-medium text-gray-500">Portfolio Value</h4>
-                <p className="text-lg font-semibold mt-1">{formatCurrency(stressedPortfolio.totalValue)}</p>
-                <p className="text-sm text-gray-500 mt-1">
-                  Change: {formatChange(stressedPortfolio.totalValue, portfolio.totalValue)}
-                </p>
-              </div>
+              {/* Values in different currencies don't add up, so each currency held gets its own card */}
+              {Object.entries(portfolio.totalsByCurrency).map(([currency, totals], _, currencies) => {
+                const stressedValue = stressedPortfolio.totalsByCurrency[currency]?.totalValue ?? 0;
+                return (
+                  <div key={currency} className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+                    <h4 className="text-sm font-medium text-gray-500">
+                      Portfolio Value{currencies.length > 1 ? ` (${currency})` : ''}
+                    </h4>
+                    <p className="text-lg font-semibold mt-1">{formatCurrency(stressedValue, currency)}</p>
+                    <p className="text-sm text-gray-500 mt-1">
+                      Change: {formatChange(stressedValue, totals.totalValue)}
+                    </p>
+                  </div>
+                );
+              })}
               
               <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
                 <h4 className="text-sm font-medium text-gray-500">Delta</h4>
@@ -139,9 +238,19 @@ export default function StressTest({ portfolio, onStressTestComplete }: StressTe
                   Change: {formatChange(stressedPortfolio.aggregateGreeks.delta, portfolio.aggregateGreeks.delta)}
                 </p>
               </div>
+
+              {separateDeltas.map(underlyingType => (
+                <div key={underlyingType} className="bg-gray-50 p-4 rounded-lg border border-gray-200">
+                  <h4 className="text-sm font-medium text-gray-500">{underlyingTypeLabels[underlyingType]} Delta</h4>
+                  <p className="text-lg font-semibold mt-1">{stressedPortfolio.deltaByUnderlying[underlyingType].toFixed(4)}</p>
+                  <p className="text-sm text-gray-500 mt-1">
+                    Change: {formatChange(stressedPortfolio.deltaByUnderlying[underlyingType], portfolio.deltaByUnderlying[underlyingType])}
+                  </p>
+                </div>
+              ))}
               
               <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-                <h4 className="text-sm font-medium text-gray-500">Gamma</h4>
+                <h4 className="text-sm font-medium text-gray-500">{greekLabelWithUnit('Gamma', 'gamma', settings.greekConventions)}</h4>
                 <p className="text-lg font-semibold mt-1">{stressedPortfolio.aggregateGreeks.gamma.toFixed(4)}</p>
                 <p className="text-sm text-gray-500 mt-1">
                   Change: {formatChange(stressedPortfolio.aggregateGreeks.gamma, portfolio.aggregateGreeks.gamma)}
@@ -149,7 +258,7 @@ export default function StressTest({ portfolio, onStressTestComplete }: StressTe
               </div>
               
               <div className="bg-gray-50 p-4 rounded-lg border border-gray-200">
-                <h4 className="text-sm font-medium text-gray-500">Vega</h4>
+                <h4 className="text-sm font-medium text-gray-500">{greekLabelWithUnit('Vega', 'vega', settings.greekConventions)}</h4>
                 <p className="text-lg font-semibold mt-1">{stressedPortfolio.aggregateGreeks.vega.toFixed(4)}</p>
                 <p className="text-sm text-gray-500 mt-1">
                   Change: {formatChange(stressedPortfolio.aggregateGreeks.vega, portfolio.aggregateGreeks.vega)}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { CalibrationMarket, SviModel, VolSurfaceData } from '@/types/option';
+import { fitSviSurface, SviFitResult, sviModelLabels } from '@/lib/utils/svi';
+
+interface SviFitProps {
+  surface: VolSurfaceData | null;
+  market: CalibrationMarket;
+  fit: SviFitResult | null;
+  onFitChange: (fit: SviFitResult | null) => void;
+}
+
+function formatVolPoints(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+export default function SviFit({ surface, market, fit, onFitChange }: SviFitProps) {
+  const [model, setModel] = useState<SviModel>('ssvi');
+  const [error, setError] = useState<string | null>(null);
+
+  const runFit = () => {
+    if (!surface) return;
+    try {
+      onFitChange(fitSviSurface(surface, market, model));
+      setError(null);
+    } catch (err) {
+      onFitChange(null);
+      setError(err instanceof Error ? err.message : 'SVI fitting failed');
+    }
+  };
+
+  // Fitted parameters and fit quality as a JSON download
+  const exportParameters = () => {
+    if (!fit) return;
+    const content = JSON.stringify({
+      ...fit.surface,
+      fitQuality: {
+        rmse: fit.report.rmse,
+        maxError: fit.report.maxError,
+        slices: fit.report.slices
+      }
+    }, null, 2);
+    const blob = new Blob([content], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fit.surface.model}_svi_parameters.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-4">SVI Surface</h3>
+
+      <div className="space-y-4">
+        <div className="flex items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Parameterisation</label>
+            <select
+              value={model}
+              onChange={(e) => setModel(e.target.value as SviModel)}
+              className="px-3 py-2.5 border rounded-lg text-sm"
+            >
+              {(Object.keys(sviModelLabels) as SviModel[]).map(sviModel => (
+                <option key={sviModel} value={sviModel}>{sviModelLabels[sviModel]}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={runFit}
+            disabled={!surface}
+            className="flex-1 bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {surface ? 'Fit SVI Surface' : 'Upload a volatility surface to fit'}
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-lg">
+            {error}
+          </div>
+        )}
+
+        {fit && (
+          <>
+            <div className="text-sm text-gray-600 space-y-1">
+              <p>
+                {sviModelLabels[fit.surface.model]}: RMSE {formatVolPoints(fit.report.rmse)} vol,
+                max error {formatVolPoints(fit.report.maxError)} vol over {fit.report.points.length} quotes
+              </p>
+              {fit.surface.ssvi && (
+                <p>
+                  ρ = {fit.surface.ssvi.rho.toFixed(4)}, η = {fit.surface.ssvi.eta.toFixed(4)}, γ = {fit.surface.ssvi.gamma.toFixed(4)}
+                </p>
+              )}
+              {fit.report.skippedMaturities.length > 0 && (
+                <p className="text-amber-700">
+                  Too few quotes to fit: {fit.report.skippedMaturities.map(maturity => `${maturity}y`).join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium text-gray-500">Expiry</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">a</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">b</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">ρ</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">m</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">σ</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">RMSE</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">Max Error</th>
+                    <th className="px-2 py-1 text-right font-medium text-gray-500">Arbitrage</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fit.surface.slices.map((slice, j) => {
+                    const report = fit.report.slices[j];
+                    const arbitrage = [
+                      report.butterflyArbitrage && 'butterfly',
+                      report.calendarArbitrage && 'calendar'
+                    ].filter(Boolean).join(', ');
+                    return (
+                      <tr key={slice.maturity}>
+                        <td className="px-2 py-1 font-medium text-gray-700">{slice.maturity}y</td>
+                        <td className="px-2 py-1 text-right">{slice.parameters.a.toFixed(4)}</td>
+                        <td className="px-2 py-1 text-right">{slice.parameters.b.toFixed(4)}</td>
+                        <td className="px-2 py-1 text-right">{slice.parameters.rho.toFixed(4)}</td>
+                        <td className="px-2 py-1 text-right">{slice.parameters.m.toFixed(4)}</td>
+                        <td className="px-2 py-1 text-right">{slice.parameters.sigma.toFixed(4)}</td>
+                        <td className="px-2 py-1 text-right">{formatVolPoints(report.rmse)}</td>
+                        <td className="px-2 py-1 text-right">{formatVolPoints(report.maxError)}</td>
+                        <td className={`px-2 py-1 text-right ${arbitrage ? 'text-red-700' : 'text-green-700'}`}>
+                          {arbitrage || 'None'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              onClick={exportParameters}
+              className="w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm"
+            >
+              Export Parameters (JSON)
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useRef, useState } from 'react';
+import { DayCount } from '@/types/option';
+import { dayCountLabels, isISODate } from '@/lib/utils/dayCount';
+import { generateSampleHolidayCSV, parseHolidayCSV } from '@/lib/utils/fileParser';
+import { usePricing } from '@/lib/hooks/usePricing';
+
+// Valuation date, day count and holiday calendar shared by every dated position
+export default function ValuationControls() {
+  const { settings, updateSettings } = usePricing();
+  const { valuation } = settings;
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleHolidayFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const holidays = await parseHolidayCSV(file);
+      updateSettings({ valuation: { ...valuation, holidays } });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while parsing the holiday file.');
+    }
+  };
+
+  const downloadSample = () => {
+    const blob = new Blob([generateSampleHolidayCSV()], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'sample-holidays.csv';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="valuation-date" className="text-sm font-medium text-gray-700">
+        Valuation Date
+      </label>
+      <input
+        id="valuation-date"
+        type="date"
+        value={valuation.date}
+        onChange={(e) => {
+          if (isISODate(e.target.value)) updateSettings({ valuation: { ...valuation, date: e.target.value } });
+        }}
+        className="px-3 py-2 border rounded-lg text-sm"
+      />
+      <select
+        value={valuation.dayCount}
+        onChange={(e) => updateSettings({ valuation: { ...valuation, dayCount: e.target.value as DayCount } })}
+        className="px-3 py-2 border rounded-lg text-sm"
+        title="Day count"
+      >
+        {(Object.keys(dayCountLabels) as DayCount[]).map(dayCount => (
+          <option key={dayCount} value={dayCount}>
+            {dayCountLabels[dayCount]}
+          </option>
+        ))}
+      </select>
+      <input
+        ref={fileInput}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => {
+          handleHolidayFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInput.current?.click()}
+        className="px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+        title={error ?? 'Load a holiday calendar CSV (date, name)'}
+      >
+        {valuation.holidays.length > 0 ? `${valuation.holidays.length} Holidays` : 'Load Holidays'}
+      </button>
+      {valuation.holidays.length > 0 && (
+        <button
+          onClick={() => updateSettings({ valuation: { ...valuation, holidays: [] } })}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Clear
+        </button>
+      )}
+      <button onClick={downloadSample} className="text-xs text-blue-600 hover:text-blue-800">
+        Sample
+      </button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -10,7 +10,12 @@ import {
   ArcElement
 } from 'chart.js';
 import { Bar, Pie } from 'react-chartjs-2';
-import { Portfolio, OptionMetrics } from '@/types/option';
+import { Portfolio, OptionMetrics, UnderlyingType, DollarGreeks, PositionSide } from '@/types/option';
+import { positionSide, separateDeltaUnderlyings, underlyingTypeLabels } from '@/lib/utils/pricingEngine';
+import { positionUnits, sumDollarGreeks } from '@/lib/utils/dollarGreeks';
+import { greekLabelWithUnit } from '@/lib/utils/greekConventions';
+import { positionCurrency } from '@/lib/utils/garmanKohlhagen';
+import { usePricing } from '@/lib/hooks/usePricing';
 
 ChartJS.register(
   CategoryScale,
@@ -26,7 +31,12 @@ interface VisualizationPanelProps {
   portfolio: Portfolio;
 }
 
+function formatCurrency(value: number, currency: string = 'USD'): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+}
+
 export default function VisualizationPanel({ portfolio }: VisualizationPanelProps) {
+  const { settings } = usePricing();
   // Group options by ticker
   const optionsByTicker = useMemo(() => {
     const grouped = portfolio.options.reduce((acc, option) => {
@@ -40,39 +50,73 @@ export default function VisualizationPanel({ portfolio }: VisualizationPanelProp
     return grouped;
   }, [portfolio.options]);
 
-  // Calculate total value by ticker
+  // Calculate long and short value by ticker. Short positions are worth minus
+  // their premium, so the pie shows gross exposure |long| + |short|.
   const valueByTicker = useMemo(() => {
-    const data: Record<string, number> = {};
+    const data: Record<string, Record<PositionSide, number>> = {};
     Object.entries(optionsByTicker).forEach(([ticker, options]) => {
-      data[ticker] = options.reduce((sum, opt) => sum + opt.totalValue, 0);
+      data[ticker] = options.reduce(
+        (sum, opt) => ({ ...sum, [positionSide(opt)]: sum[positionSide(opt)] + opt.totalValue }),
+        { long: 0, short: 0 }
+      );
     });
     return data;
   }, [optionsByTicker]);
 
-  // Calculate Greeks by ticker
+  // Calculate Greeks by ticker, in units of the underlying. Futures and FX deltas
+  // are against their own underlying prices, so they are kept apart from equity deltas.
   const greeksByTicker = useMemo(() => {
-    const data: Record<string, { delta: number; gamma: number; vega: number; theta: number }> = {};
+    const data: Record<string, { deltas: Record<UnderlyingType, number>; gamma: number; vega: number; theta: number }> = {};
     Object.entries(optionsByTicker).forEach(([ticker, options]) => {
       data[ticker] = options.reduce(
-        (sum, opt) => ({
-          delta: sum.delta + opt.greeks.delta * opt.quantity,
-          gamma: sum.gamma + opt.greeks.gamma * opt.quantity,
-          vega: sum.vega + opt.greeks.vega * opt.quantity,
-          theta: sum.theta + opt.greeks.theta * opt.quantity,
-        }),
-        { delta: 0, gamma: 0, vega: 0, theta: 0 }
+        (sum, opt) => {
+          const underlyingType = opt.underlyingType ?? 'equity';
+          const units = positionUnits(opt);
+          return {
+            deltas: { ...sum.deltas, [underlyingType]: sum.deltas[underlyingType] + opt.greeks.delta * units },
+            gamma: sum.gamma + opt.greeks.gamma * units,
+            vega: sum.vega + opt.greeks.vega * units,
+            theta: sum.theta + opt.greeks.theta * units,
+          };
+        },
+        { deltas: { equity: 0, future: 0, fx: 0 }, gamma: 0, vega: 0, theta: 0 }
       );
     });
     return data;
   }, [optionsByTicker]);
 
+  // Currency Greeks by ticker, which add up across underlying types
+  const dollarGreeksByTicker = useMemo(() => {
+    const data: Record<string, DollarGreeks> = {};
+    Object.entries(optionsByTicker).forEach(([ticker, options]) => {
+      data[ticker] = sumDollarGreeks(options.map(opt => opt.dollarGreeks));
+    });
+    return data;
+  }, [optionsByTicker]);
+
+  // Values and currency Greeks are in each ticker's currency, and amounts in
+  // different currencies don't add up, so their charts are drawn per currency
+  const tickerCurrency = useMemo(() => Object.fromEntries(
+    Object.entries(optionsByTicker).map(([ticker, options]) => [ticker, positionCurrency(options[0])])
+  ), [optionsByTicker]);
+  const currencies = Array.from(new Set(Object.values(tickerCurrency)));
+  const tickersIn = (currency: string) => Object.keys(optionsByTicker).filter(ticker => tickerCurrency[ticker] === currency);
+  const inCurrency = (title: string, currency: string) => currencies.length > 1 ? `${title} (${currency})` : title;
+
+  const separateDeltas = separateDeltaUnderlyings(portfolio.options);
+  const separateDeltaColors: Record<UnderlyingType, string> = {
+    equity: 'rgba(255, 99, 132, 0.5)',
+    future: 'rgba(153, 102, 255, 0.5)',
+    fx: 'rgba(255, 159, 64, 0.5)'
+  };
+
   // Chart configurations
-  const valueDistributionData = {
-    labels: Object.keys(valueByTicker),
+  const valueDistributionData = (tickers: string[]) => ({
+    labels: tickers,
     datasets: [
       {
-        label: 'Portfolio Value Distribution',
-        data: Object.values(valueByTicker),
+        label: 'Gross Exposure',
+        data: tickers.map(ticker => valueByTicker[ticker].long - valueByTicker[ticker].short),
         backgroundColor: [
           'rgba(255, 99, 132, 0.5)',
           'rgba(54, 162, 235, 0.5)',
@@ -90,34 +134,65 @@ export default function VisualizationPanel({ portfolio }: VisualizationPanelProp
         borderWidth: 1,
       },
     ],
-  };
+  });
 
   const greeksData = {
     labels: Object.keys(greeksByTicker),
     datasets: [
       {
-        label: 'Delta',
-        data: Object.values(greeksByTicker).map(g => g.delta),
-        backgroundColor: 'rgba(255, 99, 132, 0.5)',
+        label: separateDeltas.length > 0 ? 'Equity Delta' : 'Delta',
+        data: Object.values(greeksByTicker).map(g => g.deltas.equity),
+        backgroundColor: separateDeltaColors.equity,
       },
+      ...separateDeltas.map(underlyingType => ({
+        label: `${underlyingTypeLabels[underlyingType]} Delta`,
+        data: Object.values(greeksByTicker).map(g => g.deltas[underlyingType]),
+        backgroundColor: separateDeltaColors[underlyingType],
+      })),
       {
-        label: 'Gamma',
+        label: greekLabelWithUnit('Gamma', 'gamma', settings.greekConventions),
         data: Object.values(greeksByTicker).map(g => g.gamma),
         backgroundColor: 'rgba(54, 162, 235, 0.5)',
       },
       {
-        label: 'Vega',
+        label: greekLabelWithUnit('Vega', 'vega', settings.greekConventions),
         data: Object.values(greeksByTicker).map(g => g.vega),
         backgroundColor: 'rgba(75, 192, 192, 0.5)',
       },
       {
-        label: 'Theta',
+        label: greekLabelWithUnit('Theta', 'theta', settings.greekConventions),
         data: Object.values(greeksByTicker).map(g => g.theta),
         backgroundColor: 'rgba(255, 206, 86, 0.5)',
       },
     ],
   };
 
+  const dollarGreeksData = (tickers: string[]) => ({
+    labels: tickers,
+    datasets: [
+      {
+        label: '$ Delta',
+        data: tickers.map(ticker => dollarGreeksByTicker[ticker].delta),
+        backgroundColor: 'rgba(255, 99, 132, 0.5)',
+      },
+      {
+        label: '$ Gamma (1%)',
+        data: tickers.map(ticker => dollarGreeksByTicker[ticker].gamma),
+        backgroundColor: 'rgba(54, 162, 235, 0.5)',
+      },
+      {
+        label: 'Vega / Vol Pt',
+        data: tickers.map(ticker => dollarGreeksByTicker[ticker].vega),
+        backgroundColor: 'rgba(75, 192, 192, 0.5)',
+      },
+      {
+        label: 'Theta / Day',
+        data: tickers.map(ticker => dollarGreeksByTicker[ticker].theta),
+        backgroundColor: 'rgba(255, 206, 86, 0.5)',
+      },
+    ],
+  });
+
   const chartOptions = {
     responsive: true,
     maintainAspectRatio: false,
@@ -140,7 +215,27 @@ export default function VisualizationPanel({ portfolio }: VisualizationPanelProp
     },
   };
 
-  const pieOptions = {
+  const dollarChartOptions = (currency: string) => ({
+    ...chartOptions,
+    plugins: {
+      ...chartOptions.plugins,
+      title: {
+        ...chartOptions.plugins.title,
+        text: inCurrency('Dollar Greeks by Ticker', currency),
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: currency,
+        },
+      },
+    },
+  });
+
+  const pieOptions = (currency: string) => ({
     responsive: true,
     maintainAspectRatio: false,
     plugins: {
@@ -149,23 +244,25 @@ export default function VisualizationPanel({ portfolio }: VisualizationPanelProp
       },
       title: {
         display: true,
-        text: 'Portfolio Value Distribution',
+        text: inCurrency('Gross Exposure Distribution', currency),
         font: {
           size: 14,
         },
       },
     },
-  };
+  });
 
   return (
     <div>
       <h2 className="text-2xl font-semibold mb-6">Portfolio Visualization</h2>
       
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
-        <div className="bg-gray-50 p-6 rounded-lg border border-gray-200">
-          <div className="h-[400px]">
-            <Pie data={valueDistributionData} options={pieOptions} />
-          </div>
+        <div className="bg-gray-50 p-6 rounded-lg border border-gray-200 space-y-6">
+          {currencies.map(currency => (
+            <div key={currency} className="h-[400px]">
+              <Pie data={valueDistributionData(tickersIn(currency))} options={pieOptions(currency)} />
+            </div>
+          ))}
         </div>
         
         <div className="bg-gray-50 p-6 rounded-lg border border-gray-200">
@@ -173,6 +270,14 @@ export default function VisualizationPanel({ portfolio }: VisualizationPanelProp
             <Bar data={greeksData} options={chartOptions} />
           </div>
         </div>
+
+        {currencies.map(currency => (
+          <div key={currency} className="bg-gray-50 p-6 rounded-lg border border-gray-200 xl:col-span-2">
+            <div className="h-[400px]">
+              <Bar data={dollarGreeksData(tickersIn(currency))} options={dollarChartOptions(currency)} />
+            </div>
+          </div>
+        ))}
       </div>
 
       <div className="mt-8">
@@ -183,13 +288,29 @@ export default function VisualizationPanel({ portfolio }: VisualizationPanelProp
               <h4 className="text-sm font-medium text-gray-900">{ticker}</h4>
               <div className="mt-2 space-y-2">
                 <p className="text-sm text-gray-600">
-                  Total Value: {new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(valueByTicker[ticker])}
+                  Net Value: {formatCurrency(valueByTicker[ticker].long + valueByTicker[ticker].short, tickerCurrency[ticker])}
                 </p>
+                {valueByTicker[ticker].short !== 0 && (
+                  <p className="text-sm text-gray-600">
+                    Long {formatCurrency(valueByTicker[ticker].long, tickerCurrency[ticker])} / Short{' '}
+                    <span className="text-red-600">{formatCurrency(valueByTicker[ticker].short, tickerCurrency[ticker])}</span>
+                  </p>
+                )}
                 <p className="text-sm text-gray-600">
                   Number of Options: {options.length}
                 </p>
+                {options.some(opt => (opt.underlyingType ?? 'equity') === 'equity') && (
+                  <p className="text-sm text-gray-600">
+                    Net Delta: {greeksByTicker[ticker].deltas.equity.toFixed(4)}
+                  </p>
+                )}
+                {separateDeltaUnderlyings(options).map(underlyingType => (
+                  <p key={underlyingType} className="text-sm text-gray-600">
+                    Net {underlyingTypeLabels[underlyingType]} Delta: {greeksByTicker[ticker].deltas[underlyingType].toFixed(4)}
+                  </p>
+                ))}
                 <p className="text-sm text-gray-600">
-                  Net Delta: {greeksByTicker[ticker].delta.toFixed(4)}
+                  $ Delta: {formatCurrency(dollarGreeksByTicker[ticker].delta, tickerCurrency[ticker])}
                 </p>
               </div>
             </div>
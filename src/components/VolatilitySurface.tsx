@@ -2,56 +2,24 @@ import { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import Papa from 'papaparse';
 import dynamic from 'next/dynamic';
+import { VolSurfaceData } from '@/types/option';
+import { interpolateVolatility } from '@/lib/utils/volatilitySurface';
 
 // Dynamically import Plotly to avoid SSR issues
 const Plot = dynamic(() => import('react-plotly.js'), { ssr: false });
 
-interface VolSurfaceData {
-  strikes: number[];
-  maturities: number[];
-  volatilities: number[][];
-}
-
 interface VolatilitySurfaceProps {
-  onVolatilityUpdate: (interpolator: (strike: number, maturity: number) => number) => void;
+  onVolatilityUpdate?: (interpolator: (strike: number, maturity: number) => number) => void;
+  onSurfaceLoad?: (surface: VolSurfaceData) => void;
+  fittedSurface?: VolSurfaceData | null;  // Model surface the plot can switch to
 }
 
-export default function VolatilitySurface({ onVolatilityUpdate }: VolatilitySurfaceProps) {
+export default function VolatilitySurface({ onVolatilityUpdate, onSurfaceLoad, fittedSurface }: VolatilitySurfaceProps) {
   const [surfaceData, setSurfaceData] = useState<VolSurfaceData | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [showFitted, setShowFitted] = useState(false);
 
-  // Bilinear interpolation function
-  const interpolateVol = (strike: number, maturity: number, data: VolSurfaceData): number => {
-    const { strikes, maturities, volatilities } = data;
-    
-    // Find nearest strike indices
-    let i1 = 0;
-    while (i1 < strikes.length - 1 && strikes[i1 + 1] <= strike) i1++;
-    const i2 = Math.min(i1 + 1, strikes.length - 1);
-    
-    // Find nearest maturity indices
-    let j1 = 0;
-    while (j1 < maturities.length - 1 && maturities[j1 + 1] <= maturity) j1++;
-    const j2 = Math.min(j1 + 1, maturities.length - 1);
-    
-    // Calculate weights
-    const x = (strike - strikes[i1]) / (strikes[i2] - strikes[i1] || 1);
-    const y = (maturity - maturities[j1]) / (maturities[j2] - maturities[j1] || 1);
-    
-    // Perform bilinear interpolation
-    const v11 = volatilities[j1][i1];
-    const v12 = volatilities[j1][i2];
-    const v21 = volatilities[j2][i1];
-    const v22 = volatilities[j2][i2];
-    
-    const interpolated = 
-      v11 * (1 - x) * (1 - y) +
-      v12 * x * (1 - y) +
-      v21 * (1 - x) * y +
-      v22 * x * y;
-    
-    return interpolated;
-  };
+  const plotted = showFitted && fittedSurface ? fittedSurface : surfaceData;
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
@@ -59,14 +27,15 @@ export default function VolatilitySurface({ onVolatilityUpdate }: VolatilitySurf
     
     try {
       const text = await file.text();
-      const result = Papa.parse(text, { header: true, dynamicTyping: true });
+      const result = Papa.parse(text, { header: true, dynamicTyping: true, skipEmptyLines: true });
       
       if (result.errors.length > 0) {
         throw new Error('Failed to parse CSV file');
       }
 
       // Extract unique strikes and maturities
-      const data = result.data as Array<{ strike: number; maturity: number; volatility: number }>;
+      const data = (result.data as Array<{ strike: number; maturity: number; volatility: number }>)
+        .filter(row => typeof row.strike === 'number' && typeof row.maturity === 'number');
       const strikes = [...new Set(data.map(row => row.strike))].sort((a, b) => a - b);
       const maturities = [...new Set(data.map(row => row.maturity))].sort((a, b) => a - b);
       
@@ -83,15 +52,16 @@ export default function VolatilitySurface({ onVolatilityUpdate }: VolatilitySurf
       
       // Create and pass the interpolator function
       const interpolator = (strike: number, maturity: number) => 
-        interpolateVol(strike, maturity, surfaceData);
+        interpolateVolatility(surfaceData, strike, maturity);
       
-      onVolatilityUpdate(interpolator);
+      onVolatilityUpdate?.(interpolator);
+      onSurfaceLoad?.(surfaceData);
       setError(null);
     } catch (err) {
       setError('Error processing volatility surface data. Please check the file format.');
       console.error(err);
     }
-  }, [onVolatilityUpdate]);
+  }, [onVolatilityUpdate, onSurfaceLoad]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -160,14 +130,32 @@ export default function VolatilitySurface({ onVolatilityUpdate }: VolatilitySurf
         Download Sample CSV
       </button>
 
-      {surfaceData && (
+      {fittedSurface && (
+        <div className="flex justify-end gap-2 text-sm">
+          <button
+            onClick={() => setShowFitted(false)}
+            className={`px-3 py-1 rounded-md ${!showFitted ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+          >
+            Raw Grid
+          </button>
+          <button
+            onClick={() => setShowFitted(true)}
+            className={`px-3 py-1 rounded-md ${showFitted ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+          >
+            Fitted Surface
+          </button>
+        </div>
+      )}
+
+      {plotted && (
         <div className="h-[400px] mt-6">
           <Plot
             data={[{
               type: 'surface',
-              x: surfaceData.strikes,
-              y: surfaceData.maturities,
-              z: surfaceData.volatilities,
+              x: plotted.strikes,
+              y: plotted.maturities,
+              // Missing quotes are gaps, not zero volatility
+              z: plotted.volatilities.map(row => row.map(vol => (vol > 0 ? vol : null))),
               colorscale: 'Viridis',
               contours: {
                 z: {
@@ -179,7 +167,7 @@ export default function VolatilitySurface({ onVolatilityUpdate }: VolatilitySurf
               }
             }]}
             layout={{
-              title: 'Volatility Surface',
+              title: plotted === surfaceData ? 'Volatility Surface' : 'Fitted Volatility Surface',
               scene: {
                 xaxis: { title: 'Strike' },
                 yaxis: { title: 'Maturity' },
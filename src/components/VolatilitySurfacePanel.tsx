@@ -0,0 +1,200 @@
+import { useMemo, useState } from 'react';
+import { CalibrationMarket, Portfolio, SabrSmile, SurfaceInterpolation, SurfaceVolatility, VolSurfaceData } from '@/types/option';
+import { surfaceInterpolationLabels } from '@/lib/utils/volatilitySurface';
+import { sampleSviSurface, SviFitResult } from '@/lib/utils/svi';
+import { usePricing } from '@/lib/hooks/usePricing';
+import VolatilitySurface from './VolatilitySurface';
+import HestonCalibration from './HestonCalibration';
+import SabrSmiles from './SabrSmiles';
+import SviFit from './SviFit';
+import LocalVolatility from './LocalVolatility';
+
+interface VolatilitySurfacePanelProps {
+  portfolio: Portfolio;
+}
+
+// Positions either keep their own volatility or are marked to the surface
+type VolatilitySource = 'position' | SurfaceInterpolation;
+
+export default function VolatilitySurfacePanel({ portfolio }: VolatilitySurfacePanelProps) {
+  const { settings, updateSettings } = usePricing();
+  const tickers = useMemo(() => Array.from(new Set(portfolio.options.map(option => option.ticker))), [portfolio.options]);
+  // The surface is quoted on one underlying, and only its positions are marked to it
+  const [ticker, setTicker] = useState(settings.surfaceVolatility?.ticker ?? tickers[0] ?? '');
+  const firstOption = portfolio.options.find(option => option.ticker === ticker);
+  const [market, setMarket] = useState<CalibrationMarket>({
+    spot: firstOption?.spotPrice ?? 100,
+    riskFreeRate: firstOption?.riskFreeRate ?? 0.05,
+    dividendYield: firstOption?.dividendYield ?? 0
+  });
+  const [surface, setSurface] = useState<VolSurfaceData | null>(null);
+  const [smiles, setSmiles] = useState<SabrSmile[] | null>(null);
+  const [sviFit, setSviFit] = useState<SviFitResult | null>(null);
+
+  const volatilitySource: VolatilitySource = settings.surfaceVolatility?.interpolation ?? 'position';
+
+  const fittedSurface = useMemo(
+    () => (sviFit && surface ? sampleSviSurface(sviFit.surface, surface) : null),
+    [sviFit, surface]
+  );
+
+  // Which sources have something to read volatilities from
+  const sourceAvailable: Record<SurfaceInterpolation, boolean> = {
+    bilinear: surface !== null,
+    sabr: smiles !== null,
+    svi: sviFit !== null
+  };
+
+  const surfaceSource = (
+    interpolation: SurfaceInterpolation,
+    fits: { smiles: SabrSmile[] | null; sviFit: SviFitResult | null },
+    surfaceTicker: string = ticker
+  ): SurfaceVolatility | undefined => {
+    if (!surface) return undefined;
+    return {
+      ticker: surfaceTicker,
+      interpolation,
+      surface,
+      smiles: fits.smiles ?? undefined,
+      svi: fits.sviFit?.surface
+    };
+  };
+
+  const handleSurfaceLoad = (data: VolSurfaceData) => {
+    setSurface(data);
+    setSmiles(null);
+    setSviFit(null);
+    // Fits to the old surface no longer apply
+    updateSettings({ surfaceVolatility: undefined });
+  };
+
+  const handleMarketChange = (field: keyof CalibrationMarket, value: string) => {
+    const numValue = parseFloat(value);
+    if (!Number.isFinite(numValue)) return;
+    setMarket(prev => ({ ...prev, [field]: numValue }));
+  };
+
+  // Refits replace the active source's fit, or fall back to the position's own volatility if the fit failed
+  const handleSmilesChange = (fitted: SabrSmile[] | null) => {
+    setSmiles(fitted);
+    if (volatilitySource === 'sabr') {
+      updateSettings({ surfaceVolatility: fitted ? surfaceSource('sabr', { smiles: fitted, sviFit }) : undefined });
+    }
+  };
+
+  const handleSviFitChange = (fitted: SviFitResult | null) => {
+    setSviFit(fitted);
+    if (volatilitySource === 'svi') {
+      updateSettings({ surfaceVolatility: fitted ? surfaceSource('svi', { smiles, sviFit: fitted }) : undefined });
+    }
+  };
+
+  // The quoting market follows the underlying's first position
+  const handleTickerChange = (newTicker: string) => {
+    setTicker(newTicker);
+    const option = portfolio.options.find(position => position.ticker === newTicker);
+    if (option) {
+      setMarket({ spot: option.spotPrice, riskFreeRate: option.riskFreeRate, dividendYield: option.dividendYield ?? 0 });
+    }
+    if (volatilitySource !== 'position') {
+      updateSettings({ surfaceVolatility: surfaceSource(volatilitySource, { smiles, sviFit }, newTicker) });
+    }
+  };
+
+  const handleSourceChange = (source: VolatilitySource) => {
+    updateSettings({
+      surfaceVolatility: source === 'position' ? undefined : surfaceSource(source, { smiles, sviFit })
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-2xl font-semibold mb-6">Volatility Surface</h2>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <VolatilitySurface onSurfaceLoad={handleSurfaceLoad} fittedSurface={fittedSurface} />
+
+          <div>
+            <label htmlFor="surface-ticker" className="block text-sm font-medium text-gray-700 mb-1">
+              Underlying
+            </label>
+            <select
+              id="surface-ticker"
+              value={ticker}
+              onChange={(e) => handleTickerChange(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+            >
+              {tickers.map(t => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Spot</label>
+              <input
+                type="number"
+                value={market.spot}
+                onChange={(e) => handleMarketChange('spot', e.target.value)}
+                className="w-full px-4 py-2.5 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                step="1"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Risk-Free Rate</label>
+              <input
+                type="number"
+                value={market.riskFreeRate}
+                onChange={(e) => handleMarketChange('riskFreeRate', e.target.value)}
+                className="w-full px-4 py-2.5 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                step="0.0025"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Dividend Yield</label>
+              <input
+                type="number"
+                value={market.dividendYield}
+                onChange={(e) => handleMarketChange('dividendYield', e.target.value)}
+                className="w-full px-4 py-2.5 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                step="0.0025"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="volatility-source" className="block text-sm font-medium text-gray-700 mb-1">
+              Position Volatility
+            </label>
+            <select
+              id="volatility-source"
+              value={volatilitySource}
+              onChange={(e) => handleSourceChange(e.target.value as VolatilitySource)}
+              disabled={!surface}
+              className="w-full px-3 py-2 border rounded-lg text-sm disabled:bg-gray-100"
+            >
+              <option value="position">Each position&apos;s own volatility</option>
+              {(Object.keys(surfaceInterpolationLabels) as SurfaceInterpolation[]).map(interpolation => (
+                <option key={interpolation} value={interpolation} disabled={!sourceAvailable[interpolation]}>
+                  {ticker} surface: {surfaceInterpolationLabels[interpolation]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-8">
+          <SviFit surface={surface} market={market} fit={sviFit} onFitChange={handleSviFitChange} />
+          <SabrSmiles surface={surface} market={market} smiles={smiles} onSmilesChange={handleSmilesChange} />
+          <HestonCalibration surface={surface} market={market} />
+        </div>
+      </div>
+
+      <div className="mt-8">
+        <LocalVolatility portfolio={portfolio} surface={surface} market={market} svi={sviFit?.surface ?? null} />
+      </div>
+    </div>
+  );
+}
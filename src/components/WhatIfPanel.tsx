@@ -1,23 +1,29 @@
 import { useState, useEffect } from 'react';
 import { Portfolio, Option } from '@/types/option';
-import { calculatePortfolioMetrics } from '@/lib/utils/blackScholes';
+import { calculatePortfolioMetrics } from '@/lib/utils/pricingEngine';
+import { addDays, businessDaysBetween, rollValuationDate } from '@/lib/utils/dayCount';
+import { usePricing } from '@/lib/hooks/usePricing';
 
 interface WhatIfPanelProps {
   portfolio: Portfolio;
-  onPortfolioChange: (newPortfolio: Portfolio) => void;
+  // Also given the days the valuation date was rolled, for attributing the change
+  onPortfolioChange: (newPortfolio: Portfolio, timeDecayDays: number) => void;
 }
 
 interface TuningParams {
   volatilityMultiplier: number;
   timeDecayDays: number;
   rateShift: number;
+  dividendYieldShift: number;
 }
 
 export default function WhatIfPanel({ portfolio, onPortfolioChange }: WhatIfPanelProps) {
+  const { settings } = usePricing();
   const [params, setParams] = useState<TuningParams>({
     volatilityMultiplier: 1,
     timeDecayDays: 0,
-    rateShift: 0
+    rateShift: 0,
+    dividendYieldShift: 0
   });
 
   const [debounceTimeout, setDebounceTimeout] = useState<NodeJS.Timeout | null>(null);
@@ -29,15 +35,18 @@ export default function WhatIfPanel({ portfolio, onPortfolioChange }: WhatIfPane
     }
 
     const timeout = setTimeout(() => {
-      const adjustedOptions: Option[] = portfolio.options.map(option => ({
+      // Time decay rolls the valuation date forward, so expiries and ex-dates are
+      // recounted under the selected day count and holiday calendar
+      const rolled = rollValuationDate(portfolio.options, settings.valuation, params.timeDecayDays);
+      const adjustedOptions: Option[] = rolled.map(option => ({
         ...option,
         volatility: option.volatility * params.volatilityMultiplier,
-        timeToExpiry: Math.max(0, option.timeToExpiry - params.timeDecayDays / 365),
-        riskFreeRate: option.riskFreeRate + params.rateShift / 100
+        riskFreeRate: option.riskFreeRate + params.rateShift / 100,
+        dividendYield: Math.max(0, (option.dividendYield ?? 0) + params.dividendYieldShift / 10000)
       }));
 
-      const newPortfolio = calculatePortfolioMetrics(adjustedOptions);
-      onPortfolioChange(newPortfolio);
+      const newPortfolio = calculatePortfolioMetrics(adjustedOptions, settings);
+      onPortfolioChange(newPortfolio, params.timeDecayDays);
     }, 100);
 
     setDebounceTimeout(timeout);
@@ -45,7 +54,10 @@ export default function WhatIfPanel({ portfolio, onPortfolioChange }: WhatIfPane
     return () => {
       if (timeout) clearTimeout(timeout);
     };
-  }, [params, portfolio, onPortfolioChange]);
+  }, [params, portfolio, settings, onPortfolioChange]);
+
+  const rolledDate = addDays(settings.valuation.date, params.timeDecayDays);
+  const tradingDays = businessDaysBetween(settings.valuation.date, rolledDate, settings.valuation.holidays);
 
   const handleParamChange = (param: keyof TuningParams, value: number) => {
     setParams(prev => ({
@@ -91,7 +103,7 @@ export default function WhatIfPanel({ portfolio, onPortfolioChange }: WhatIfPane
               Time Decay (Days)
             </label>
             <span className="text-sm text-gray-500">
-              {params.timeDecayDays} days
+              {params.timeDecayDays} days to {rolledDate} ({tradingDays} trading)
             </span>
           </div>
           <input
@@ -134,10 +146,35 @@ export default function WhatIfPanel({ portfolio, onPortfolioChange }: WhatIfPane
           </div>
         </div>
 
+        {/* Dividend Yield Shift */}
+        <div>
+          <div className="flex justify-between mb-2">
+            <label className="text-sm font-medium text-gray-700">
+              Dividend Yield Shift (bps)
+            </label>
+            <span className="text-sm text-gray-500">
+              {params.dividendYieldShift > 0 ? '+' : ''}{params.dividendYieldShift} bps
+            </span>
+          </div>
+          <input
+            type="range"
+            min="-100"
+            max="100"
+            step="5"
+            value={params.dividendYieldShift}
+            onChange={(e) => handleParamChange('dividendYieldShift', parseFloat(e.target.value))}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>-100 bps</span>
+            <span>+100 bps</span>
+          </div>
+        </div>
+
         <div className="mt-6 p-4 bg-blue-50 rounded-lg">
           <h3 className="text-sm font-medium text-blue-800 mb-2">Real-time Adjustments</h3>
           <p className="text-sm text-blue-600">
-            Move the sliders to see how changes in volatility, time decay, and interest rates affect your portfolio metrics.
+            Move the sliders to see how changes in volatility, time decay, interest rates, and dividend yields affect your portfolio metrics.
             All calculations update automatically.
           </p>
         </div>
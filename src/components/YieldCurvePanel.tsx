@@ -0,0 +1,190 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import dynamic from 'next/dynamic';
+import { Portfolio, YieldCurve } from '@/types/option';
+import { generateSampleYieldCurveCSV, parseYieldCurveCSV } from '@/lib/utils/fileParser';
+import { zeroRate } from '@/lib/utils/yieldCurve';
+import { greekLabelWithUnit, greekScale } from '@/lib/utils/greekConventions';
+import { usePricing } from '@/lib/hooks/usePricing';
+
+// Dynamically import Plotly to avoid SSR issues
+const Plot = dynamic(() => import('react-plotly.js'), { ssr: false });
+
+interface YieldCurvePanelProps {
+  portfolio: Portfolio;
+}
+
+const CURVE_PLOT_POINTS = 100;
+
+function formatTenor(tenor: number): string {
+  return tenor < 1 ? `${Math.round(tenor * 12)}M` : `${tenor}Y`;
+}
+
+export default function YieldCurvePanel({ portfolio }: YieldCurvePanelProps) {
+  const { settings, updateSettings } = usePricing();
+  const [curve, setCurve] = useState<YieldCurve | null>(settings.yieldCurve ?? null);
+  const [error, setError] = useState<string | null>(null);
+
+  const onCurve = settings.yieldCurve !== undefined;
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+    try {
+      const loaded = await parseYieldCurveCSV(acceptedFiles[0]);
+      setCurve(loaded);
+      setError(null);
+      // A new curve replaces the one positions are priced off
+      if (onCurve) updateSettings({ yieldCurve: loaded });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while parsing the curve file.');
+    }
+  }, [onCurve, updateSettings]);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'text/csv': ['.csv']
+    },
+    multiple: false
+  });
+
+  const downloadSample = () => {
+    const blob = new Blob([generateSampleYieldCurveCSV()], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'sample-yield-curve.csv';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  // Interpolated zero rates out to the last node
+  const plotted = useMemo(() => {
+    if (!curve) return null;
+    const longest = curve.tenors[curve.tenors.length - 1];
+    const tenors = Array.from({ length: CURVE_PLOT_POINTS }, (_, i) => longest * (i + 1) / CURVE_PLOT_POINTS);
+    return { tenors, rates: tenors.map(t => zeroRate(curve, t) * 100) };
+  }, [curve]);
+
+  const totalKeyRateRho = portfolio.keyRateRhos.reduce((sum, bucket) => sum + bucket.rho, 0);
+  // Rho is per 1.00 or per 1% of rate depending on the conventions; a basis point is 0.0001
+  const perBasisPoint = (rho: number) => rho / greekScale('rho', settings.greekConventions, 0) / 10000;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="text-2xl font-semibold mb-6">Yield Curve</h2>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div
+            {...getRootProps()}
+            className={`border-2 border-dashed rounded-lg p-4 text-center cursor-pointer transition-colors
+              ${isDragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'}`}
+          >
+            <input {...getInputProps()} />
+            {curve ? (
+              <p className="text-sm text-gray-700">
+                Curve loaded: {curve.tenors.length} tenors out to {formatTenor(curve.tenors[curve.tenors.length - 1])}
+              </p>
+            ) : (
+              <p className="text-sm text-gray-700">Drop a zero curve CSV (tenor, zeroRate)</p>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 text-red-700 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={onCurve}
+                disabled={!curve}
+                onChange={(e) => updateSettings({ yieldCurve: e.target.checked && curve ? curve : undefined })}
+              />
+              Price positions off the curve
+            </label>
+            <button
+              onClick={downloadSample}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Download Sample Curve
+            </button>
+          </div>
+
+          {plotted && curve && (
+            <div className="h-[300px]">
+              <Plot
+                data={[
+                  {
+                    type: 'scatter',
+                    mode: 'lines',
+                    x: plotted.tenors,
+                    y: plotted.rates,
+                    name: 'Interpolated',
+                    line: { color: 'rgb(37, 99, 235)' }
+                  },
+                  {
+                    type: 'scatter',
+                    mode: 'markers',
+                    x: curve.tenors,
+                    y: curve.zeroRates.map(rate => rate * 100),
+                    name: 'Nodes',
+                    marker: { color: 'rgb(17, 24, 39)', size: 7 }
+                  }
+                ]}
+                layout={{
+                  xaxis: { title: 'Tenor (years)' },
+                  yaxis: { title: 'Zero Rate (%)' },
+                  margin: { l: 50, r: 20, t: 20, b: 40 },
+                  showlegend: false,
+                  autosize: true
+                }}
+                useResizeHandler={true}
+                style={{ width: '100%', height: '100%' }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-lg font-medium mb-4">Key-Rate Rho</h3>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                <th className="px-2 py-1 text-left font-medium text-gray-500">Tenor</th>
+                <th className="px-2 py-1 text-right font-medium text-gray-500">{greekLabelWithUnit('Rho', 'rho', settings.greekConventions)}</th>
+                <th className="px-2 py-1 text-right font-medium text-gray-500">Per bp</th>
+              </tr>
+            </thead>
+            <tbody>
+              {portfolio.keyRateRhos.map(bucket => (
+                <tr key={bucket.tenor}>
+                  <td className="px-2 py-1 text-gray-700">{formatTenor(bucket.tenor)}</td>
+                  <td className="px-2 py-1 text-right">{bucket.rho.toFixed(4)}</td>
+                  <td className="px-2 py-1 text-right">{perBasisPoint(bucket.rho).toFixed(4)}</td>
+                </tr>
+              ))}
+              <tr className="border-t">
+                <td className="px-2 py-1 font-medium text-gray-700">Total</td>
+                <td className="px-2 py-1 text-right font-medium">{totalKeyRateRho.toFixed(4)}</td>
+                <td className="px-2 py-1 text-right font-medium">{perBasisPoint(totalKeyRateRho).toFixed(4)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            {onCurve
+              ? 'Bucketed to the curve nodes.'
+              : 'Positions are on their own flat rates; bucketed to standard key tenors by expiry.'}
+            {' '}Log discount factors are interpolated linearly between nodes, so each position&apos;s rho splits between the nodes either side of its expiry.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import React, { createContext, useState } from "react";
+import { PricingSettings } from "@/types/option";
+import { DEFAULT_PRICING_SETTINGS } from "../utils/pricingEngine";
+import { defaultValuationSettings } from "../utils/dayCount";
+
+interface PricingContextType {
+  settings: PricingSettings;
+  updateSettings: (changes: Partial<PricingSettings>) => void;
+}
+
+const PricingContext = createContext<PricingContextType>({
+  settings: DEFAULT_PRICING_SETTINGS,
+  updateSettings: () => {},
+});
+
+export function PricingProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = useState<PricingSettings>(() => ({
+    ...DEFAULT_PRICING_SETTINGS,
+    valuation: defaultValuationSettings(),
+  }));
+
+  const updateSettings = (changes: Partial<PricingSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+  };
+
+  return (
+    <PricingContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </PricingContext.Provider>
+  );
+}
+
+export { PricingContext };
@@ -0,0 +1,4 @@
+import { useContext } from "react";
+import { PricingContext } from "../contexts/PricingContext";
+
+export const usePricing = () => useContext(PricingContext);
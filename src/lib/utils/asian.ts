@@ -0,0 +1,189 @@
+import { AverageType, Option, PricingInputs, PricingResult } from '@/types/option';
+import { normalCDF } from './normalDistribution';
+import { calculateBumpedGreeks } from './bumpGreeks';
+import { PathProduct } from './monteCarlo';
+import { forwardPathValue, hasZeroVariance, priceAtZeroVariance } from './zeroVariance';
+
+export interface AsianTerms {
+  averageType: AverageType;
+  fixingTimes: number[];  // Years from the valuation date to each remaining fixing
+  fixingsTaken: number;   // Fixings already set
+  fixedAverage: number;   // Average of the fixings already set
+}
+
+export const averageTypeLabels: Record<AverageType, string> = {
+  price: 'Average Price',
+  strike: 'Average Strike'
+};
+
+// A position's fixing schedule `elapsed` years later. Fixings that have come
+// due are set, at the current spot as the only level known for them, and join
+// the fixed average; the rest move closer.
+export function observeFixings(option: Option, elapsed: number): Option {
+  if (!option.fixingTimes) return option;
+
+  const shifted = option.fixingTimes.map(t => t - elapsed);
+  const observed = shifted.filter(t => t <= 0).length;
+  if (observed === 0) return { ...option, fixingTimes: shifted };
+
+  const taken = option.fixingsTaken ?? 0;
+  return {
+    ...option,
+    fixingTimes: shifted.filter(t => t > 0),
+    fixingsTaken: taken + observed,
+    fixedAverage: (taken * (option.fixedAverage ?? 0) + observed * option.spotPrice) / (taken + observed)
+  };
+}
+
+// Below this total log-variance the average is treated as known
+const MIN_VARIANCE = 1e-12;
+
+// Remaining fixings in time order, clamped to [0, T]; a fixing at 0 is the current spot
+function scheduleFixings(fixingTimes: number[], T: number): number[] {
+  return fixingTimes.map(t => Math.min(Math.max(t, 0), T)).sort((a, b) => a - b);
+}
+
+// Black-76 value of a lognormal payoff max(η(F - K), 0) with total log-variance v
+function lognormalOption(forward: number, strike: number, variance: number, discount: number, sign: number): number {
+  if (variance < MIN_VARIANCE) return discount * Math.max(sign * (forward - strike), 0);
+
+  const sd = Math.sqrt(variance);
+  const d1 = (Math.log(forward / strike) + variance / 2) / sd;
+  const d2 = d1 - sd;
+  return discount * sign * (forward * normalCDF(sign * d1) - strike * normalCDF(sign * d2));
+}
+
+// Turnbull-Wakeman approximation for discretely fixed arithmetic averages: the
+// average of the remaining fixings is taken as lognormal with its exact first
+// two moments under Black-Scholes dynamics. Fixings already set shift the
+// effective strike (average price) or enter the average as a constant (average strike).
+export function calculateAsianPrice(inputs: PricingInputs, terms: AsianTerms): number {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma, type } = inputs;
+  const sign = type === 'Call' ? 1 : -1;
+  const b = r - q;
+  const discount = Math.exp(-r * T);
+
+  const times = scheduleFixings(terms.fixingTimes, T);
+  const m = terms.fixingsTaken;
+  const N = times.length;
+  const n = m + N;
+  const fixedSum = m * terms.fixedAverage;
+
+  // First two moments of the average of the remaining fixings
+  const forwards = times.map(t => S * Math.exp(b * t));
+  const M1 = forwards.reduce((sum, forward) => sum + forward, 0) / N;
+  let M2 = 0;
+  for (let i = 0; i < N; i++) {
+    for (let j = 0; j < N; j++) {
+      M2 += forwards[i] * forwards[j] * Math.exp(sigma * sigma * Math.min(times[i], times[j]));
+    }
+  }
+  M2 /= N * N;
+
+  if (terms.averageType === 'price') {
+    if (N === 0) return discount * Math.max(sign * (terms.fixedAverage - K), 0);
+
+    // Strike the remaining fixings have to beat; at or below zero a call is certain to pay
+    const effectiveStrike = (n * K - fixedSum) / N;
+    if (effectiveStrike <= 0) {
+      return sign === 1 ? discount * ((fixedSum + N * M1) / n - K) : 0;
+    }
+
+    return (N / n) * lognormalOption(M1, effectiveStrike, Math.log(M2 / (M1 * M1)), discount, sign);
+  }
+
+  // Average strike: an exchange of S_T against the full average, both lognormal
+  const forward = S * Math.exp(b * T);
+  if (N === 0) return lognormalOption(forward, terms.fixedAverage, sigma * sigma * T, discount, sign);
+
+  const averageM1 = (fixedSum + N * M1) / n;
+  const averageM2 = (fixedSum * fixedSum + 2 * fixedSum * N * M1 + N * N * M2) / (n * n);
+  const crossMoment = (fixedSum * forward +
+    forwards.reduce((sum, fixingForward, i) => sum + fixingForward * forward * Math.exp(sigma * sigma * times[i]), 0)) / n;
+
+  const averageVariance = Math.log(averageM2 / (averageM1 * averageM1));
+  const covariance = Math.log(crossMoment / (averageM1 * forward));
+  const variance = sigma * sigma * T + averageVariance - 2 * covariance;
+
+  return lognormalOption(forward, averageM1, variance, discount, sign);
+}
+
+// Price a European arithmetic-average option. Greeks are finite differences of
+// the approximation; as time passes the fixing dates move closer with expiry.
+export function priceAsian(inputs: PricingInputs, terms: AsianTerms): PricingResult {
+  const termsAt = (pricingInputs: PricingInputs): AsianTerms => {
+    const elapsed = inputs.timeToExpiry - pricingInputs.timeToExpiry;
+    return { ...terms, fixingTimes: terms.fixingTimes.map(t => t - elapsed) };
+  };
+
+  // With no variance left the average is read off the forward path
+  if (hasZeroVariance(inputs)) {
+    return priceAtZeroVariance(inputs, pricingInputs =>
+      forwardPathValue(pricingInputs, asianProduct(pricingInputs, termsAt(pricingInputs)))
+    );
+  }
+
+  const price = (pricingInputs: PricingInputs) => calculateAsianPrice(pricingInputs, termsAt(pricingInputs));
+
+  return {
+    price: price(inputs),
+    greeks: calculateBumpedGreeks(price, inputs)
+  };
+}
+
+// The contract as a Monte Carlo product, to check the approximation against.
+// Average-price options use the geometric average of the same fixings, which
+// has a closed form, as control.
+export function asianProduct(inputs: PricingInputs, terms: AsianTerms): PathProduct {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma, type } = inputs;
+  const sign = type === 'Call' ? 1 : -1;
+  const times = scheduleFixings(terms.fixingTimes, T);
+  const N = times.length;
+  const n = terms.fixingsTaken + N;
+  const fixedSum = terms.fixingsTaken * terms.fixedAverage;
+  const averageOf = (spots: number[]) => (fixedSum + spots.slice(0, N).reduce((sum, spot) => sum + spot, 0)) / n;
+
+  if (terms.averageType === 'strike') {
+    // The terminal spot is observed after the fixings
+    return {
+      times: [...times, T],
+      payoff: spots => Math.max(sign * (spots[N] - averageOf(spots)), 0),
+      gradient: spots => {
+        const inTheMoney = sign * (spots[N] - averageOf(spots)) > 0 ? sign : 0;
+        return [...times.map(() => -inTheMoney / n), inTheMoney];
+      }
+    };
+  }
+
+  const product: PathProduct = {
+    times,
+    payoff: spots => Math.max(sign * (averageOf(spots) - K), 0),
+    gradient: spots => {
+      const inTheMoney = sign * (averageOf(spots) - K) > 0 ? sign : 0;
+      return times.map(() => inTheMoney / n);
+    }
+  };
+
+  const effectiveStrike = (n * K - fixedSum) / Math.max(N, 1);
+  if (N === 0 || effectiveStrike <= 0) return product;
+
+  // ln G is normal: mean ln S + (b - σ²/2)·t̄, variance σ²·Σᵢⱼ min(tᵢ, tⱼ) / N²
+  const meanTime = times.reduce((sum, t) => sum + t, 0) / N;
+  let overlap = 0;
+  times.forEach(ti => times.forEach(tj => { overlap += Math.min(ti, tj); }));
+  const logMean = Math.log(S) + (r - q - sigma * sigma / 2) * meanTime;
+  const logVariance = sigma * sigma * overlap / (N * N);
+  const geometricForward = Math.exp(logMean + logVariance / 2);
+
+  return {
+    ...product,
+    control: {
+      payoff: spots => {
+        const geometric = Math.exp(spots.slice(0, N).reduce((sum, spot) => sum + Math.log(spot), 0) / N);
+        return (N / n) * Math.max(sign * (geometric - effectiveStrike), 0);
+      },
+      presentValue: (N / n) * lognormalOption(geometricForward, effectiveStrike, logVariance, Math.exp(-r * T), sign)
+    }
+  };
+}
+
@@ -0,0 +1,139 @@
+import { PricingInputs, PricingResult, VolatilityType } from '@/types/option';
+import { clampToTails, NORMAL_TAIL_LIMIT, normalCDF, normalPDF } from './normalDistribution';
+import { hasZeroVariance, priceVanillaAtZeroVariance } from './zeroVariance';
+import type { ImpliedVolResult } from './impliedVolatility';
+
+export const volatilityTypeLabels: Record<VolatilityType, string> = {
+  lognormal: 'Lognormal (Black-Scholes)',
+  normal: 'Normal (Bachelier)'
+};
+
+const PRICE_TOLERANCE = 1e-12;
+const MAX_ITERATIONS = 100;
+// Smallest normal volatility tried, as a fraction of the time value's ATM estimate
+const MIN_VOL_FRACTION = 1e-8;
+
+// Price a European call or put with the Bachelier model, where the forward
+// F = S·e^((r - q)T) is normally distributed at expiry with standard deviation
+// σ√T. σ is the normal volatility in price units per √year, so spots, strikes
+// and forwards may be zero or negative. Vega, vanna, volga and zomma are
+// against the normal volatility.
+export function priceBachelier(inputs: PricingInputs): PricingResult {
+  const { spot: S, strike: K, timeToExpiry: T, volatility: sigma, riskFreeRate: r, dividendYield: q, type } = inputs;
+  const sign = type === 'Call' ? 1 : -1;
+
+  // The forward intrinsic value is model-free; only the at-the-money vega
+  // limit, e^(-rT)·√T·n(0), is in normal-volatility units
+  if (hasZeroVariance(inputs)) {
+    const limit = priceVanillaAtZeroVariance(inputs);
+    const t = Math.max(T, 0);
+    const atTheMoney = S * Math.exp(-q * t) === K * Math.exp(-r * t);
+    const vega = atTheMoney ? Math.exp(-r * t) * Math.sqrt(t / (2 * Math.PI)) : 0;
+    return { ...limit, greeks: { ...limit.greeks, vega } };
+  }
+
+  const growth = Math.exp((r - q) * T);
+  const discount = Math.exp(-r * T);
+  const forward = S * growth;
+  const sqrtT = Math.sqrt(T);
+  const deviation = sigma * sqrtT;
+  const rawD = (forward - K) / deviation;
+  const d = clampToTails(rawD);
+  const density = normalPDF(d);
+  const probability = normalCDF(sign * d);
+
+  const price = discount * (sign * (forward - K) * probability + deviation * density);
+
+  // Derivatives in the forward, carried to the spot through dF/dS = e^((r - q)T)
+  const forwardDelta = discount * sign * probability;
+  const delta = growth * forwardDelta;
+  const gamma = growth * growth * discount * density / deviation;
+  const speed = -gamma * growth * d / deviation;
+
+  const vega = discount * sqrtT * density;
+  const volga = vega * d * d / sigma;
+  const vanna = -growth * discount * density * d / sigma;
+  const zomma = gamma * (d * d - 1) / sigma;
+
+  // The forward moves with r and against q
+  const rho = T * (forwardDelta * forward - price);
+  const rhoForeign = -T * forwardDelta * forward;
+
+  // Theta is the value change as calendar time passes, i.e. as T shrinks
+  const dDdT = (r - q) * forward / deviation - d / (2 * T);
+  const theta = r * price - (r - q) * forward * forwardDelta - discount * density * sigma / (2 * sqrtT);
+  const charm = q * delta - Math.exp(-q * T) * density * dDdT;
+  const color = -gamma * (r - 2 * q - d * dDdT - 1 / (2 * T));
+
+  return {
+    price,
+    greeks: {
+      delta,
+      gamma,
+      theta,
+      vega,
+      rho,
+      rhoForeign,
+      vanna,
+      volga,
+      charm,
+      speed,
+      color,
+      zomma
+    },
+    diagnostics: Math.abs(rawD) > NORMAL_TAIL_LIMIT ? ['extremeMoneyness'] : undefined
+  };
+}
+
+// Back out the normal volatility that reproduces a price. The Bachelier price
+// rises without bound in σ, so the only arbitrage bound is the discounted
+// intrinsic value. Newton steps on vega, kept inside a bracket that bisection
+// narrows whenever a step would leave it.
+export function solveNormalVolatility(marketPrice: number, inputs: PricingInputs): ImpliedVolResult {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, type } = inputs;
+  const discount = Math.exp(-r * T);
+  const forward = S * Math.exp((r - q) * T);
+  const intrinsic = discount * Math.max(0, (type === 'Call' ? 1 : -1) * (forward - K));
+  const timeValue = marketPrice - intrinsic;
+
+  if (!(timeValue > PRICE_TOLERANCE * Math.max(1, marketPrice))) {
+    return {
+      volatility: 0,
+      converged: false,
+      method: 'newton',
+      iterations: 0,
+      failureReason: timeValue < 0 ? 'belowLowerBound' : 'noTimeValue',
+      message: `Market price ${marketPrice.toFixed(4)} has no time value over the discounted intrinsic value ${intrinsic.toFixed(4)}`
+    };
+  }
+
+  const priceAt = (sigma: number) => priceBachelier({ ...inputs, volatility: sigma });
+
+  // At the money the price is e^(-rT)·σ·√(T/2π)
+  let sigma = timeValue * Math.sqrt(2 * Math.PI / T) / discount;
+  let lower = sigma * MIN_VOL_FRACTION;
+  let upper = sigma;
+  while (priceAt(upper).price < marketPrice) upper *= 2;
+
+  for (let i = 1; i <= MAX_ITERATIONS; i++) {
+    const { price, greeks } = priceAt(sigma);
+    const diff = price - marketPrice;
+    if (Math.abs(diff) < PRICE_TOLERANCE * Math.max(1, marketPrice)) {
+      return { volatility: sigma, converged: true, method: 'newton', iterations: i };
+    }
+    if (diff > 0) upper = sigma;
+    else lower = sigma;
+
+    const step = sigma - diff / greeks.vega;
+    sigma = step > lower && step < upper ? step : (lower + upper) / 2;
+  }
+
+  return {
+    volatility: sigma,
+    converged: false,
+    method: 'newton',
+    iterations: MAX_ITERATIONS,
+    failureReason: 'noConvergence',
+    message: `Normal volatility did not converge in ${MAX_ITERATIONS} iterations`
+  };
+}
@@ -0,0 +1,115 @@
+import { PricingInputs, PricingResult } from '@/types/option';
+import { normalCDF, normalPDF } from './normalDistribution';
+import { priceBlackScholes } from './blackScholes';
+import { calculateBumpedGreeks } from './bumpGreeks';
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+// Critical spot price above which an American call should be exercised
+function criticalCallPrice(inputs: PricingInputs): number {
+  const { strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma } = inputs;
+  const b = r - q;
+  const variance = sigma * sigma;
+  const sqrtT = Math.sqrt(T);
+
+  const n = 2 * b / variance;
+  const m = 2 * r / variance;
+  const qInfinity = (-(n - 1) + Math.sqrt((n - 1) * (n - 1) + 4 * m)) / 2;
+  const sInfinity = K / (1 - 1 / qInfinity);
+  const h2 = -(b * T + 2 * sigma * sqrtT) * K / (sInfinity - K);
+
+  const k = 2 * r / (variance * (1 - Math.exp(-r * T)));
+  const q2 = (-(n - 1) + Math.sqrt((n - 1) * (n - 1) + 4 * k)) / 2;
+  const carry = Math.exp((b - r) * T);
+
+  // Seed from the perpetual boundary, then Newton-Raphson
+  let seed = K + (sInfinity - K) * (1 - Math.exp(h2));
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const { price, d1 } = priceBlackScholes({ ...inputs, type: 'Call', spot: seed });
+    const lhs = seed - K;
+    const rhs = price + (1 - carry * normalCDF(d1)) * seed / q2;
+    if (Math.abs(lhs - rhs) / K < TOLERANCE) break;
+
+    const slope = carry * normalCDF(d1) * (1 - 1 / q2) +
+      (1 - carry * normalPDF(d1) / (sigma * sqrtT)) / q2;
+    seed = (K + rhs - slope * seed) / (1 - slope);
+  }
+
+  return seed;
+}
+
+// Critical spot price below which an American put should be exercised
+function criticalPutPrice(inputs: PricingInputs): number {
+  const { strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma } = inputs;
+  const b = r - q;
+  const variance = sigma * sigma;
+  const sqrtT = Math.sqrt(T);
+
+  const n = 2 * b / variance;
+  const m = 2 * r / variance;
+  const qInfinity = (-(n - 1) - Math.sqrt((n - 1) * (n - 1) + 4 * m)) / 2;
+  const sInfinity = K / (1 - 1 / qInfinity);
+  const h1 = (b * T - 2 * sigma * sqrtT) * K / (K - sInfinity);
+
+  const k = 2 * r / (variance * (1 - Math.exp(-r * T)));
+  const q1 = (-(n - 1) - Math.sqrt((n - 1) * (n - 1) + 4 * k)) / 2;
+  const carry = Math.exp((b - r) * T);
+
+  let seed = sInfinity + (K - sInfinity) * Math.exp(h1);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const { price, d1 } = priceBlackScholes({ ...inputs, type: 'Put', spot: seed });
+    const lhs = K - seed;
+    const rhs = price - (1 - carry * normalCDF(-d1)) * seed / q1;
+    if (Math.abs(lhs - rhs) / K < TOLERANCE) break;
+
+    const slope = -carry * normalCDF(-d1) * (1 - 1 / q1) -
+      (1 + carry * normalPDF(-d1) / (sigma * sqrtT)) / q1;
+    seed = (K - rhs + slope * seed) / (1 + slope);
+  }
+
+  return seed;
+}
+
+// Barone-Adesi-Whaley quadratic approximation to the American option price
+export function calculateBAWPrice(inputs: PricingInputs): number {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma, type } = inputs;
+  const european = priceBlackScholes(inputs).price;
+  const b = r - q;
+  const variance = sigma * sigma;
+
+  // Early exercise is never optimal for calls without dividends or puts without positive rates
+  if (type === 'Call' && b >= r) return european;
+  if (type === 'Put' && r <= 0) return european;
+
+  const n = 2 * b / variance;
+  const k = 2 * r / (variance * (1 - Math.exp(-r * T)));
+  const carry = Math.exp((b - r) * T);
+
+  if (type === 'Call') {
+    const critical = criticalCallPrice(inputs);
+    if (S >= critical) return S - K;
+
+    const q2 = (-(n - 1) + Math.sqrt((n - 1) * (n - 1) + 4 * k)) / 2;
+    const { d1 } = priceBlackScholes({ ...inputs, spot: critical });
+    const a2 = (critical / q2) * (1 - carry * normalCDF(d1));
+    return european + a2 * Math.pow(S / critical, q2);
+  }
+
+  const critical = criticalPutPrice(inputs);
+  if (S <= critical) return K - S;
+
+  const q1 = (-(n - 1) - Math.sqrt((n - 1) * (n - 1) + 4 * k)) / 2;
+  const { d1 } = priceBlackScholes({ ...inputs, spot: critical });
+  const a1 = -(critical / q1) * (1 - carry * normalCDF(-d1));
+  return european + a1 * Math.pow(S / critical, q1);
+}
+
+// Price an American option with the Barone-Adesi-Whaley approximation.
+// Greeks are finite differences of the approximation.
+export function priceBaroneAdesiWhaley(inputs: PricingInputs): PricingResult {
+  return {
+    price: calculateBAWPrice(inputs),
+    greeks: calculateBumpedGreeks(calculateBAWPrice, inputs)
+  };
+}
@@ -0,0 +1,148 @@
+import { BarrierType, PricingInputs, PricingResult } from '@/types/option';
+import { normalCDF } from './normalDistribution';
+import { priceBlackScholes } from './blackScholes';
+import { calculateBumpedGreeks } from './bumpGreeks';
+import { PathProduct } from './monteCarlo';
+import { forwardPathValue, hasZeroVariance, priceAtZeroVariance } from './zeroVariance';
+
+export interface BarrierTerms {
+  type: BarrierType;
+  level: number;          // H
+  rebate: number;         // Paid at the hit for knock-outs, at expiry for knock-ins that never knock in
+}
+
+// Broadie-Glasserman-Kou constant, -ζ(1/2)/√(2π)
+const CONTINUITY_CORRECTION = 0.5826;
+// Monitoring dates on the forward path, which crosses a barrier at most once
+const FORWARD_MONITORING_DATES = 1000;
+
+export const barrierTypeLabels: Record<BarrierType, string> = {
+  downAndIn: 'Down-and-In',
+  downAndOut: 'Down-and-Out',
+  upAndIn: 'Up-and-In',
+  upAndOut: 'Up-and-Out'
+};
+
+export function isKnockIn(type: BarrierType): boolean {
+  return type === 'downAndIn' || type === 'upAndIn';
+}
+
+function isDownBarrier(type: BarrierType): boolean {
+  return type === 'downAndIn' || type === 'downAndOut';
+}
+
+// Whether the barrier has already been reached at the current spot
+export function isBarrierBreached(spot: number, barrier: BarrierTerms): boolean {
+  return isDownBarrier(barrier.type) ? spot <= barrier.level : spot >= barrier.level;
+}
+
+// Reiner-Rubinstein closed-form value of a single-barrier option (continuous
+// monitoring), in the notation of Haug's "Complete Guide to Option Pricing Formulas"
+export function calculateBarrierPrice(inputs: PricingInputs, barrier: BarrierTerms): number {
+  const { spot: S, strike: X, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma, type } = inputs;
+  const { level: H, rebate: K } = barrier;
+  const knockIn = isKnockIn(barrier.type);
+
+  // Once breached a knock-in is a plain vanilla and a knock-out has paid its rebate
+  if (isBarrierBreached(S, barrier)) {
+    return knockIn ? priceBlackScholes(inputs).price : K;
+  }
+
+  const b = r - q;
+  const phi = type === 'Call' ? 1 : -1;
+  const eta = isDownBarrier(barrier.type) ? 1 : -1;
+
+  const sigmaSqrtT = sigma * Math.sqrt(T);
+  const mu = (b - sigma * sigma / 2) / (sigma * sigma);
+  const lambda = Math.sqrt(mu * mu + 2 * r / (sigma * sigma));
+  const carry = Math.exp((b - r) * T);
+  const discount = Math.exp(-r * T);
+  const ratio = H / S;
+
+  const x1 = Math.log(S / X) / sigmaSqrtT + (1 + mu) * sigmaSqrtT;
+  const x2 = Math.log(S / H) / sigmaSqrtT + (1 + mu) * sigmaSqrtT;
+  const y1 = Math.log(H * H / (S * X)) / sigmaSqrtT + (1 + mu) * sigmaSqrtT;
+  const y2 = Math.log(H / S) / sigmaSqrtT + (1 + mu) * sigmaSqrtT;
+  const z = Math.log(H / S) / sigmaSqrtT + lambda * sigmaSqrtT;
+
+  const A = phi * S * carry * normalCDF(phi * x1) - phi * X * discount * normalCDF(phi * x1 - phi * sigmaSqrtT);
+  const B = phi * S * carry * normalCDF(phi * x2) - phi * X * discount * normalCDF(phi * x2 - phi * sigmaSqrtT);
+  const C = phi * S * carry * Math.pow(ratio, 2 * (mu + 1)) * normalCDF(eta * y1) -
+    phi * X * discount * Math.pow(ratio, 2 * mu) * normalCDF(eta * y1 - eta * sigmaSqrtT);
+  const D = phi * S * carry * Math.pow(ratio, 2 * (mu + 1)) * normalCDF(eta * y2) -
+    phi * X * discount * Math.pow(ratio, 2 * mu) * normalCDF(eta * y2 - eta * sigmaSqrtT);
+
+  // Rebates: E pays at expiry if a knock-in never knocks in, F pays at the hit
+  const E = K * discount * (normalCDF(eta * x2 - eta * sigmaSqrtT) -
+    Math.pow(ratio, 2 * mu) * normalCDF(eta * y2 - eta * sigmaSqrtT));
+  const F = K * (Math.pow(ratio, mu + lambda) * normalCDF(eta * z) +
+    Math.pow(ratio, mu - lambda) * normalCDF(eta * z - 2 * eta * lambda * sigmaSqrtT));
+
+  const strikeAbove = X > H;
+  const isCall = phi === 1;
+
+  switch (barrier.type) {
+    case 'downAndIn':
+      if (isCall) return (strikeAbove ? C : A - B + D) + E;
+      return (strikeAbove ? B - C + D : A) + E;
+    case 'upAndIn':
+      if (isCall) return (strikeAbove ? A : B - C + D) + E;
+      return (strikeAbove ? A - B + D : C) + E;
+    case 'downAndOut':
+      if (isCall) return (strikeAbove ? A - C : B - D) + F;
+      return (strikeAbove ? A - B + C - D : 0) + F;
+    case 'upAndOut':
+      if (isCall) return (strikeAbove ? 0 : A - B + C - D) + F;
+      return (strikeAbove ? B - D : A - C) + F;
+  }
+}
+
+// Price a European single-barrier option. Greeks are finite differences of the
+// closed form, so they pick up the kink at the barrier. With no variance left
+// the barrier is monitored on the deterministic forward path.
+export function priceBarrier(inputs: PricingInputs, barrier: BarrierTerms): PricingResult {
+  if (hasZeroVariance(inputs)) {
+    return priceAtZeroVariance(inputs, pricingInputs => {
+      const T = Math.max(pricingInputs.timeToExpiry, 0);
+      const dates = Array.from({ length: FORWARD_MONITORING_DATES }, (_, i) => T * (i + 1) / FORWARD_MONITORING_DATES);
+      return forwardPathValue(pricingInputs, barrierProduct(pricingInputs, barrier, dates));
+    });
+  }
+
+  const price = (pricingInputs: PricingInputs) => calculateBarrierPrice(pricingInputs, barrier);
+
+  return {
+    price: price(inputs),
+    greeks: calculateBumpedGreeks(price, inputs)
+  };
+}
+
+// The contract as a Monte Carlo product monitored at `times`, which should end
+// at expiry. Discrete monitoring misses crossings between dates, so the
+// barrier is moved toward the spot by e^(∓0.5826·σ·√Δt) (Broadie, Glasserman
+// and Kou) to approximate the continuous barrier of the closed form.
+export function barrierProduct(inputs: PricingInputs, barrier: BarrierTerms, times: number[]): PathProduct {
+  const { strike: K, timeToExpiry: T, riskFreeRate: r, volatility: sigma, type } = inputs;
+  const sign = type === 'Call' ? 1 : -1;
+  const down = isDownBarrier(barrier.type);
+  const knockIn = isKnockIn(barrier.type);
+  const interval = T / Math.max(times.length, 1);
+  const level = barrier.level * Math.exp((down ? 1 : -1) * CONTINUITY_CORRECTION * sigma * Math.sqrt(interval));
+  const hit = (spot: number) => (down ? spot <= level : spot >= level);
+
+  // Today's spot is observed first, so a barrier already breached counts
+  const observed = [0, ...times];
+  return {
+    times: observed,
+    payoff: spots => {
+      const hitIndex = isBarrierBreached(spots[0], barrier) ? 0 : spots.findIndex(hit);
+      if (knockIn) {
+        return hitIndex >= 0 ? Math.max(sign * (spots[spots.length - 1] - K), 0) : barrier.rebate;
+      }
+      // A knock-out rebate is paid at the hit, so it is carried forward to expiry
+      return hitIndex >= 0
+        ? barrier.rebate * Math.exp(r * (T - observed[hitIndex]))
+        : Math.max(sign * (spots[spots.length - 1] - K), 0);
+    }
+  };
+}
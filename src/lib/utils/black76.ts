@@ -0,0 +1,30 @@
+import { PricingInputs, PricingResult } from '@/types/option';
+import { priceBlackScholes } from './blackScholes';
+
+// Re-express a result priced with the carry yield set to r. The futures price
+// stays fixed as r moves, so a rate move shifts the discount rate and the carry
+// yield together: rho is the sum of both legs and there is no separate yield.
+export function tieCarryToRate(result: PricingResult): PricingResult {
+  const { greeks } = result;
+
+  return {
+    ...result,
+    greeks: {
+      ...greeks,
+      rho: greeks.rho + greeks.rhoForeign,
+      rhoForeign: 0
+    }
+  };
+}
+
+// Price a European option on a futures contract with the Black-76 formula.
+// inputs.spot is the futures price. Black-76 is Black-Scholes-Merton with the
+// carry yield equal to r, so the Greeks carry over with delta, gamma and speed
+// taken against the futures price, and rho works out to -T * price. Any other
+// spot pricer (digitals, barriers) can be passed in the same way.
+export function priceBlack76(
+  inputs: PricingInputs,
+  pricer: (inputs: PricingInputs) => PricingResult = priceBlackScholes
+): PricingResult {
+  return tieCarryToRate(pricer({ ...inputs, dividendYield: inputs.riskFreeRate }));
+}
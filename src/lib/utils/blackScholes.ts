@@ -1,110 +1,204 @@
-import { Option, OptionGreeks } from '@/types/option';
-
-// Standard normal cumulative distribution function
-function normalCDF(x: number): number {
-  const t = 1 / (1 + 0.2316419 * Math.abs(x));
-  const d = 0.3989423 * Math.exp(-x * x / 2);
-  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
-  return x > 0 ? 1 - p : p;
+import { BlackScholesResult, CashDividend, Option, PricingInputs } from '@/types/option';
+import { clampToTails, NORMAL_TAIL_LIMIT, normalCDF, normalPDF } from './normalDistribution';
+import { hasZeroVariance, priceVanillaAtZeroVariance } from './zeroVariance';
+
+// Inputs used by the interactive simulator and calculator page
+export interface BlackScholesInputs {
+  stockPrice: number;
+  strikePrice: number;
+  timeToMaturity: number;
+  volatility: number;
+  riskFreeRate: number;
+  dividendYield: number;
+  isCall: boolean;
+}
+
+export interface BlackScholesOutputs {
+  optionPrice: number;
+  d1: number;
+  d2: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+// Present value of the cash dividends going ex strictly before expiry
+export function presentValueOfDividends(dividends: CashDividend[] | undefined, r: number, T: number): number {
+  if (!dividends) return 0;
+  return dividends
+    .filter(dividend => dividend.timeToExDate > 0 && dividend.timeToExDate <= T)
+    .reduce((sum, dividend) => sum + dividend.amount * Math.exp(-r * dividend.timeToExDate), 0);
 }
 
-// Standard normal probability density function
-function normalPDF(x: number): number {
-  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+// Resolve a portfolio position to pricing inputs. Discrete dividends use the
+// escrowed model: the spot is reduced by the PV of dividends paid before expiry.
+// A futures price has zero cost of carry, which the pricers see as q = r, and
+// foreign currency earns the foreign rate, which they see as q = r_f.
+export function optionToPricingInputs(option: Option): PricingInputs {
+  if (option.underlyingType === 'future' || option.underlyingType === 'fx') {
+    return {
+      type: option.type,
+      spot: option.spotPrice,
+      strike: option.strikePrice,
+      timeToExpiry: option.timeToExpiry,
+      volatility: option.volatility,
+      riskFreeRate: option.riskFreeRate,
+      dividendYield: option.underlyingType === 'future' ? option.riskFreeRate : option.foreignRate ?? 0
+    };
+  }
+
+  const dividendPV = presentValueOfDividends(option.dividends, option.riskFreeRate, option.timeToExpiry);
+
+  return {
+    type: option.type,
+    spot: option.spotPrice - dividendPV,
+    strike: option.strikePrice,
+    timeToExpiry: option.timeToExpiry,
+    volatility: option.volatility,
+    riskFreeRate: option.riskFreeRate,
+    dividendYield: option.dividendYield ?? 0
+  };
 }
 
-// Calculate d1 and d2 parameters
-function calculateD1D2(S: number, K: number, T: number, r: number, sigma: number): [number, number] {
-  const d1 = (Math.log(S / K) + (r + sigma * sigma / 2) * T) / (sigma * Math.sqrt(T));
+// Resolve simulator/calculator inputs to pricing inputs
+export function simulatorToPricingInputs(inputs: BlackScholesInputs): PricingInputs {
+  return {
+    type: inputs.isCall ? 'Call' : 'Put',
+    spot: inputs.stockPrice,
+    strike: inputs.strikePrice,
+    timeToExpiry: inputs.timeToMaturity,
+    volatility: inputs.volatility,
+    riskFreeRate: inputs.riskFreeRate,
+    dividendYield: inputs.dividendYield
+  };
+}
+
+// Calculate d1 and d2 parameters. Callers rule out σ√T = 0 first.
+function calculateD1D2(S: number, K: number, T: number, r: number, q: number, sigma: number): [number, number] {
+  const d1 = (Math.log(S / K) + (r - q + sigma * sigma / 2) * T) / (sigma * Math.sqrt(T));
   const d2 = d1 - sigma * Math.sqrt(T);
   return [d1, d2];
 }
 
-// Calculate option price using Black-Scholes formula
-export function calculateOptionPrice(option: Option): number {
-  const { spotPrice: S, strikePrice: K, timeToExpiry: T, riskFreeRate: r, volatility: sigma, type } = option;
-  
-  const [d1, d2] = calculateD1D2(S, K, T, r, sigma);
-  const discountFactor = Math.exp(-r * T);
-  
-  if (type === 'Call') {
-    return S * normalCDF(d1) - K * discountFactor * normalCDF(d2);
-  } else {
-    return K * discountFactor * normalCDF(-d2) - S * normalCDF(-d1);
+// Price a European option and its Greeks with the Black-Scholes-Merton formula
+// (continuous dividend yield q). Every other entry point in this module goes through here.
+// At expiry or zero volatility the option is valued on the deterministic
+// forward, and d1/d2 are clamped to the tails when moneyness is extreme.
+export function priceBlackScholes(inputs: PricingInputs): BlackScholesResult {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma, type } = inputs;
+
+  if (hasZeroVariance(inputs)) {
+    // d1 and d2 run off to the tail on the forward's side of the strike
+    const logMoneyness = Math.log(S / K) + (r - q) * Math.max(T, 0);
+    const d = logMoneyness === 0 ? 0 : Math.sign(logMoneyness) * NORMAL_TAIL_LIMIT;
+    return { ...priceVanillaAtZeroVariance(inputs), d1: d, d2: d };
   }
-}
 
-// Calculate option Greeks
-export function calculateGreeks(option: Option): OptionGreeks {
-  const { spotPrice: S, strikePrice: K, timeToExpiry: T, riskFreeRate: r, volatility: sigma, type } = option;
-  
-  const [d1, d2] = calculateD1D2(S, K, T, r, sigma);
+  const [rawD1, rawD2] = calculateD1D2(S, K, T, r, q, sigma);
+  const d1 = clampToTails(rawD1);
+  const d2 = clampToTails(rawD2);
+  const saturated = Math.abs(rawD1) > NORMAL_TAIL_LIMIT || Math.abs(rawD2) > NORMAL_TAIL_LIMIT;
   const discountFactor = Math.exp(-r * T);
+  const dividendFactor = Math.exp(-q * T);
   const sign = type === 'Call' ? 1 : -1;
-  
+
+  const price = sign * (S * dividendFactor * normalCDF(sign * d1) - K * discountFactor * normalCDF(sign * d2));
+
   // Delta
-  const delta = sign * normalCDF(sign * d1);
-  
+  const delta = sign * dividendFactor * normalCDF(sign * d1);
+
   // Gamma (same for calls and puts)
-  const gamma = normalPDF(d1) / (S * sigma * Math.sqrt(T));
-  
+  const gamma = dividendFactor * normalPDF(d1) / (S * sigma * Math.sqrt(T));
+
   // Theta
-  const theta = -S * sigma * normalPDF(d1) / (2 * Math.sqrt(T)) -
-    sign * r * K * discountFactor * normalCDF(sign * d2);
-  
+  const theta = -S * dividendFactor * sigma * normalPDF(d1) / (2 * Math.sqrt(T)) -
+    sign * r * K * discountFactor * normalCDF(sign * d2) +
+    sign * q * S * dividendFactor * normalCDF(sign * d1);
+
   // Vega (same for calls and puts)
-  const vega = S * Math.sqrt(T) * normalPDF(d1);
-  
+  const vega = S * dividendFactor * Math.sqrt(T) * normalPDF(d1);
+
   // Rho
   const rho = sign * K * T * discountFactor * normalCDF(sign * d2);
-  
-  return {
-    delta,
-    gamma,
-    theta,
-    vega,
-    rho
-  };
-}
 
-// Calculate full option metrics
-export function calculateOptionMetrics(option: Option) {
-  const price = calculateOptionPrice(option);
-  const greeks = calculateGreeks(option);
-  const totalValue = price * option.quantity;
-  
+  // Sensitivity to the yield q (the foreign rate under Garman-Kohlhagen)
+  const rhoForeign = -sign * S * T * dividendFactor * normalCDF(sign * d1);
+
+  // Second- and third-order Greeks
+  const sigmaSqrtT = sigma * Math.sqrt(T);
+  const carryTerm = (2 * (r - q) * T - d2 * sigmaSqrtT) / (2 * T * sigmaSqrtT);
+
+  const vanna = -dividendFactor * normalPDF(d1) * d2 / sigma;
+  const volga = vega * d1 * d2 / sigma;
+  const charm = sign * q * dividendFactor * normalCDF(sign * d1) - dividendFactor * normalPDF(d1) * carryTerm;
+  const speed = -gamma / S * (d1 / sigmaSqrtT + 1);
+  const color = gamma / (2 * T) * (2 * q * T + 1 + 2 * T * carryTerm * d1);
+  const zomma = gamma * (d1 * d2 - 1) / sigma;
+
   return {
-    ...option,
     price,
-    greeks,
-    totalValue
+    d1,
+    d2,
+    greeks: {
+      delta,
+      gamma,
+      theta,
+      vega,
+      rho,
+      rhoForeign,
+      vanna,
+      volga,
+      charm,
+      speed,
+      color,
+      zomma
+    },
+    diagnostics: saturated ? ['extremeMoneyness'] : undefined
   };
 }
 
-// Aggregate portfolio metrics
-export function calculatePortfolioMetrics(options: Option[]) {
-  const optionMetrics = options.map(calculateOptionMetrics);
-  
-  const totalValue = optionMetrics.reduce((sum, opt) => sum + opt.totalValue, 0);
-  
-  const aggregateGreeks: OptionGreeks = {
-    delta: 0,
-    gamma: 0,
-    theta: 0,
-    vega: 0,
-    rho: 0
-  };
-  
-  optionMetrics.forEach(opt => {
-    Object.keys(aggregateGreeks).forEach(greek => {
-      aggregateGreeks[greek as keyof OptionGreeks] += 
-        opt.greeks[greek as keyof OptionGreeks] * opt.quantity;
-    });
-  });
-  
+// Simulator-shaped view of the same pricing result
+export function calculateBlackScholes(inputs: BlackScholesInputs): BlackScholesOutputs {
+  const { price, d1, d2, greeks } = priceBlackScholes(simulatorToPricingInputs(inputs));
+
   return {
-    options: optionMetrics,
-    totalValue,
-    aggregateGreeks
+    optionPrice: price,
+    d1,
+    d2,
+    ...greeks
   };
-} 
\ No newline at end of file
+}
+
+// Input validation functions
+export const validateInputs = {
+  stockPrice: (value: number) => value > 0,
+  strikePrice: (value: number) => value > 0,
+  timeToMaturity: (value: number) => value > 0 && value <= 10,
+  volatility: (value: number) => value > 0 && value <= 2,
+  riskFreeRate: (value: number) => value >= -0.1 && value <= 0.5,
+  dividendYield: (value: number) => value >= 0 && value <= 0.2
+};
+
+// Validate a full set of simulator inputs, returning the first problem found
+export function validateBlackScholesInputs(inputs: BlackScholesInputs): string | null {
+  for (const [field, isValid] of Object.entries(validateInputs)) {
+    const value = inputs[field as keyof typeof validateInputs];
+    if (typeof value !== 'number' || isNaN(value) || !isValid(value)) {
+      return `Invalid value for ${field.replace(/([A-Z])/g, ' $1').toLowerCase()}`;
+    }
+  }
+  return null;
+}
+
+// Default values
+export const defaultInputs: BlackScholesInputs = {
+  stockPrice: 100,
+  strikePrice: 100,
+  timeToMaturity: 1,
+  volatility: 0.2,
+  riskFreeRate: 0.05,
+  dividendYield: 0,
+  isCall: true
+};
@@ -0,0 +1,76 @@
+import { OptionGreeks, PricingInputs } from '@/types/option';
+
+// Relative spot bumps (a wider one for the third-order speed) and absolute
+// volatility/rate/time bumps
+const SPOT_BUMP = 0.001;
+const SPEED_SPOT_BUMP = 0.01;
+const VOL_BUMP = 0.001;
+const RATE_BUMP = 0.0001;
+const TIME_BUMP = 1 / 3650;
+
+// Greeks by central finite differences of any price function. Used by pricers
+// that have no analytic Greeks of their own.
+export function calculateBumpedGreeks(
+  price: (inputs: PricingInputs) => number,
+  inputs: PricingInputs
+): OptionGreeks {
+  const { spot: S, volatility: sigma, riskFreeRate: r, dividendYield: q, timeToExpiry: T } = inputs;
+  const at = (changes: Partial<PricingInputs>) => price({ ...inputs, ...changes });
+
+  const dS = S * SPOT_BUMP;
+  const dSigma = Math.min(VOL_BUMP, sigma / 2);
+  // Theta is the value change as calendar time passes, i.e. as T shrinks
+  const dT = Math.min(TIME_BUMP, T / 2);
+
+  const base = price(inputs);
+  const spotUp = at({ spot: S + dS });
+  const spotDown = at({ spot: S - dS });
+  const volUp = at({ volatility: sigma + dSigma });
+  const volDown = at({ volatility: sigma - dSigma });
+
+  const delta = (spotUp - spotDown) / (2 * dS);
+  const gamma = (spotUp - 2 * base + spotDown) / (dS * dS);
+  const vega = (volUp - volDown) / (2 * dSigma);
+  const rho = (at({ riskFreeRate: r + RATE_BUMP }) - at({ riskFreeRate: r - RATE_BUMP })) / (2 * RATE_BUMP);
+  const rhoForeign = (at({ dividendYield: q + RATE_BUMP }) - at({ dividendYield: q - RATE_BUMP })) / (2 * RATE_BUMP);
+
+  const later = at({ timeToExpiry: T - dT });
+  const theta = (later - base) / dT;
+
+  // Cross and higher-order differences
+  const spotUpVolUp = at({ spot: S + dS, volatility: sigma + dSigma });
+  const spotUpVolDown = at({ spot: S + dS, volatility: sigma - dSigma });
+  const spotDownVolUp = at({ spot: S - dS, volatility: sigma + dSigma });
+  const spotDownVolDown = at({ spot: S - dS, volatility: sigma - dSigma });
+
+  const vanna = (spotUpVolUp - spotUpVolDown - spotDownVolUp + spotDownVolDown) / (4 * dS * dSigma);
+  const volga = (volUp - 2 * base + volDown) / (dSigma * dSigma);
+
+  const gammaVolUp = (spotUpVolUp - 2 * volUp + spotDownVolUp) / (dS * dS);
+  const gammaVolDown = (spotUpVolDown - 2 * volDown + spotDownVolDown) / (dS * dS);
+  const zomma = (gammaVolUp - gammaVolDown) / (2 * dSigma);
+
+  const laterSpotUp = at({ spot: S + dS, timeToExpiry: T - dT });
+  const laterSpotDown = at({ spot: S - dS, timeToExpiry: T - dT });
+  const charm = ((laterSpotUp - laterSpotDown) / (2 * dS) - delta) / dT;
+  const color = ((laterSpotUp - 2 * later + laterSpotDown) / (dS * dS) - gamma) / dT;
+
+  const h = S * SPEED_SPOT_BUMP;
+  const speed = (at({ spot: S + 2 * h }) - 2 * at({ spot: S + h }) + 2 * at({ spot: S - h }) - at({ spot: S - 2 * h })) /
+    (2 * h * h * h);
+
+  return {
+    delta,
+    gamma,
+    theta,
+    vega,
+    rho,
+    rhoForeign,
+    vanna,
+    volga,
+    charm,
+    speed,
+    color,
+    zomma
+  };
+}
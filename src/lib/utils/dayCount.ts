@@ -0,0 +1,125 @@
+import { DayCount, Option, ValuationSettings } from '@/types/option';
+import { observeFixings } from './asian';
+
+export const dayCountLabels: Record<DayCount, string> = {
+  act365: 'ACT/365',
+  act360: 'ACT/360',
+  business252: 'Business/252'
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Dates are YYYY-MM-DD strings, counted as whole UTC days so daylight saving
+// never shifts a count
+function dayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / MS_PER_DAY;
+}
+
+function fromDayNumber(days: number): string {
+  return new Date(days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+// A real calendar date in YYYY-MM-DD format
+export function isISODate(value: unknown): value is string {
+  return typeof value === 'string' &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    fromDayNumber(dayNumber(value)) === value;
+}
+
+// Today's local date
+export function todayISO(): string {
+  const today = new Date();
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const day = String(today.getDate()).padStart(2, '0');
+  return `${today.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(dayNumber(date) + days);
+}
+
+export function calendarDaysBetween(start: string, end: string): number {
+  return dayNumber(end) - dayNumber(start);
+}
+
+// Weekends and the calendar's holidays are not business days
+export function isBusinessDay(date: string, holidays: ReadonlySet<string>): boolean {
+  const weekday = new Date(dayNumber(date) * MS_PER_DAY).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !holidays.has(date);
+}
+
+// Business days after start up to and including end, negative when end comes first
+export function businessDaysBetween(start: string, end: string, holidays: string[]): number {
+  const from = Math.min(dayNumber(start), dayNumber(end));
+  const to = Math.max(dayNumber(start), dayNumber(end));
+  const holidaySet = new Set(holidays);
+
+  let count = 0;
+  for (let day = from + 1; day <= to; day++) {
+    if (isBusinessDay(fromDayNumber(day), holidaySet)) count++;
+  }
+  return dayNumber(end) >= dayNumber(start) ? count : -count;
+}
+
+// Years from start to end under the valuation's day count
+export function yearFraction(start: string, end: string, valuation: ValuationSettings): number {
+  switch (valuation.dayCount) {
+    case 'act365':
+      return calendarDaysBetween(start, end) / 365;
+    case 'act360':
+      return calendarDaysBetween(start, end) / 360;
+    case 'business252':
+      return businessDaysBetween(start, end, valuation.holidays) / 252;
+  }
+}
+
+// Valued as of today, read on each call so a session left open past midnight
+// starts its next valuation from the right date
+export function defaultValuationSettings(): ValuationSettings {
+  return {
+    date: todayISO(),
+    dayCount: 'act365',
+    holidays: []
+  };
+}
+
+// Count dated expiries and ex-dividend dates from the valuation date, and move
+// dated positions' averaging fixings on from the date they were counted from.
+// Positions given as a raw year fraction keep it, and positions past expiry
+// are valued at expiry.
+export function markToValuationDate(options: Option[], valuation: ValuationSettings): Option[] {
+  return options.map(option => {
+    const dated: Option = {
+      ...option,
+      timeToExpiry: option.expiryDate
+        ? Math.max(yearFraction(valuation.date, option.expiryDate, valuation), 0)
+        : option.timeToExpiry,
+      dividends: option.dividends?.map(dividend => ({
+        ...dividend,
+        timeToExDate: yearFraction(valuation.date, dividend.exDate, valuation)
+      }))
+    };
+    if (!option.expiryDate || !option.fixingsAsOf) return dated;
+    return {
+      ...observeFixings(dated, yearFraction(option.fixingsAsOf, valuation.date, valuation)),
+      fixingsAsOf: valuation.date
+    };
+  });
+}
+
+// Positions as of `days` calendar days after the valuation date. Dated expiries
+// are recounted from the new date; raw year fractions, and the fixings of
+// positions given one, shrink by the day count's fraction of the elapsed days,
+// so under business/252 weekends and holidays cost no time.
+export function rollValuationDate(options: Option[], valuation: ValuationSettings, days: number): Option[] {
+  const rolled = { ...valuation, date: addDays(valuation.date, days) };
+  const elapsed = yearFraction(valuation.date, rolled.date, valuation);
+
+  return markToValuationDate(
+    options.map(option => option.expiryDate
+      ? option
+      : observeFixings({ ...option, timeToExpiry: Math.max(option.timeToExpiry - elapsed, 0) }, elapsed)),
+    rolled
+  );
+}
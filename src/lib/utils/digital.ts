@@ -0,0 +1,117 @@
+import { OptionType, PricingInputs, PricingResult } from '@/types/option';
+import { clampToTails, NORMAL_TAIL_LIMIT, normalCDF, normalPDF } from './normalDistribution';
+import { priceBlackScholes } from './blackScholes';
+import { combineDiagnostics, hasZeroVariance, ZERO_GREEKS, zeroVarianceDiagnostic } from './zeroVariance';
+
+export const DIGITAL_OPTION_TYPES: OptionType[] = [
+  'CashOrNothingCall',
+  'CashOrNothingPut',
+  'AssetOrNothingCall',
+  'AssetOrNothingPut'
+];
+
+export function isDigitalType(type: OptionType): boolean {
+  return DIGITAL_OPTION_TYPES.includes(type);
+}
+
+// Calls pay out above the strike, puts below it
+export function isCallType(type: OptionType): boolean {
+  return type === 'Call' || type === 'CashOrNothingCall' || type === 'AssetOrNothingCall';
+}
+
+// Cash-or-nothing: pays `payout` at expiry if the option finishes in the money,
+// V = Q·e^(-rT)·N(ηd₂) with η = +1 for calls and -1 for puts
+function priceCashOrNothing(inputs: PricingInputs, payout: number): PricingResult {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma } = inputs;
+  const sign = isCallType(inputs.type) ? 1 : -1;
+
+  // With no variance left the payout is certain or lost, and split at the
+  // forward. Delta is a spike at the strike, taken as zero either side of it;
+  // theta and rho are the discounting of the payout.
+  if (hasZeroVariance(inputs)) {
+    const t = Math.max(T, 0);
+    const moneyness = sign * (S * Math.exp(-q * t) - K * Math.exp(-r * t));
+    const price = payout * Math.exp(-r * t) * (moneyness > 0 ? 1 : moneyness === 0 ? 0.5 : 0);
+    return {
+      price,
+      greeks: { ...ZERO_GREEKS, theta: r * price, rho: -t * price },
+      diagnostics: [zeroVarianceDiagnostic(inputs)]
+    };
+  }
+
+  const sqrtT = Math.sqrt(T);
+  const sigmaSqrtT = sigma * sqrtT;
+  const rawD1 = (Math.log(S / K) + (r - q + sigma * sigma / 2) * T) / sigmaSqrtT;
+  const rawD2 = rawD1 - sigmaSqrtT;
+  const d1 = clampToTails(rawD1);
+  const d2 = clampToTails(rawD2);
+  const saturated = Math.abs(rawD1) > NORMAL_TAIL_LIMIT || Math.abs(rawD2) > NORMAL_TAIL_LIMIT;
+
+  // Discounted payout weighted by the density at the strike; every Greek scales it
+  const density = sign * payout * Math.exp(-r * T) * normalPDF(d2);
+  const price = payout * Math.exp(-r * T) * normalCDF(sign * d2);
+
+  // Rates of change of d₂ and d₁ as time to expiry grows
+  const d2T = (r - q - sigma * sigma / 2) / sigmaSqrtT - d2 / (2 * T);
+  const d1T = d2T + sigma / (2 * sqrtT);
+
+  const delta = density / (S * sigmaSqrtT);
+  const gamma = -density * d1 / (S * S * sigmaSqrtT * sigmaSqrtT);
+  const theta = r * price - density * d2T;
+  const vega = -density * d1 / sigma;
+  const rho = -T * price + density * sqrtT / sigma;
+  const rhoForeign = -density * sqrtT / sigma;
+
+  const vanna = density * (d1 * d2 - 1) / (S * sigma * sigmaSqrtT);
+  const volga = -density * (d1 * d1 * d2 - d1 - d2) / (sigma * sigma);
+  const charm = delta * (r + d2 * d2T + 1 / (2 * T));
+  const speed = -density * (1 - d1 * d2 - 2 * sigmaSqrtT * d1) / (S * S * S * Math.pow(sigmaSqrtT, 3));
+  const color = gamma * (r + d2 * d2T + 1 / T) + density * d1T / (S * S * sigmaSqrtT * sigmaSqrtT);
+  const zomma = -density * (d1 * d1 * d2 - d2 - 2 * d1) / (S * S * sigma * sigmaSqrtT * sigmaSqrtT);
+
+  return {
+    price,
+    greeks: {
+      delta,
+      gamma,
+      theta,
+      vega,
+      rho,
+      rhoForeign,
+      vanna,
+      volga,
+      charm,
+      speed,
+      color,
+      zomma
+    },
+    diagnostics: saturated ? ['extremeMoneyness'] : undefined
+  };
+}
+
+// Price a European digital option in closed form. Cash-or-nothing options pay
+// `payout` in cash; asset-or-nothing options deliver the underlying, which
+// decomposes as η·vanilla + K·(unit cash-or-nothing), so their Greeks follow
+// from the vanilla and cash-or-nothing Greeks.
+export function priceDigital(inputs: PricingInputs, payout: number = 1): PricingResult {
+  const isCall = isCallType(inputs.type);
+
+  if (inputs.type === 'CashOrNothingCall' || inputs.type === 'CashOrNothingPut') {
+    return priceCashOrNothing(inputs, payout);
+  }
+
+  const sign = isCall ? 1 : -1;
+  const vanilla = priceBlackScholes({ ...inputs, type: isCall ? 'Call' : 'Put' });
+  const cash = priceCashOrNothing(inputs, inputs.strike);
+
+  const greeks = { ...vanilla.greeks };
+  (Object.keys(greeks) as (keyof typeof greeks)[]).forEach(greek => {
+    greeks[greek] = sign * vanilla.greeks[greek] + cash.greeks[greek];
+  });
+
+  return {
+    price: sign * vanilla.price + cash.price,
+    greeks,
+    diagnostics: combineDiagnostics(vanilla, cash)
+  };
+}
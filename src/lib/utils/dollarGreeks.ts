@@ -0,0 +1,42 @@
+import { DollarGreeks, Option, OptionGreeks } from '@/types/option';
+
+// Units of the underlying per listed equity or futures contract unless the
+// position says otherwise. FX quantities are already foreign notional.
+export const DEFAULT_CONTRACT_MULTIPLIER = 100;
+
+export function contractMultiplier(option: Option): number {
+  return option.multiplier ?? (option.underlyingType === 'fx' ? 1 : DEFAULT_CONTRACT_MULTIPLIER);
+}
+
+// Units of the underlying the position's Greeks scale by: contracts times multiplier
+export function positionUnits(option: Option): number {
+  return option.quantity * contractMultiplier(option);
+}
+
+export const ZERO_DOLLAR_GREEKS: DollarGreeks = {
+  delta: 0,
+  gamma: 0,
+  vega: 0,
+  theta: 0
+};
+
+// Per-unit Greeks in currency for `units` of the underlying: delta as the
+// value of the equivalent underlying position, gamma as the change in that
+// for a 1% move (ΓS²/100), vega per vol point and theta per calendar day
+export function dollarGreeks(greeks: OptionGreeks, spot: number, units: number): DollarGreeks {
+  return {
+    delta: greeks.delta * spot * units,
+    gamma: greeks.gamma * spot * spot / 100 * units,
+    vega: greeks.vega / 100 * units,
+    theta: greeks.theta / 365 * units
+  };
+}
+
+export function sumDollarGreeks(positions: DollarGreeks[]): DollarGreeks {
+  return positions.reduce((sum, position) => ({
+    delta: sum.delta + position.delta,
+    gamma: sum.gamma + position.gamma,
+    vega: sum.vega + position.vega,
+    theta: sum.theta + position.theta
+  }), ZERO_DOLLAR_GREEKS);
+}
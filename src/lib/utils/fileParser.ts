@@ -1,4 +1,10 @@
-import { Option } from '@/types/option';
+import { CashDividend, DividendSchedule, Option, OptionType, ValuationSettings, YieldCurve } from '@/types/option';
+import { presentValueOfDividends } from './blackScholes';
+import { DIGITAL_OPTION_TYPES, isDigitalType } from './digital';
+import { barrierTypeLabels } from './barrier';
+import { averageTypeLabels } from './asian';
+import { volatilityTypeLabels } from './bachelier';
+import { addDays, isISODate, markToValuationDate, todayISO } from './dayCount';
 import Papa from 'papaparse';
 
 export class ValidationError extends Error {
@@ -9,6 +15,17 @@ export class ValidationError extends Error {
 }
 
 function validateOption(option: Partial<Option>): option is Option {
+  // A dated expiry stands in for timeToExpiry, which is counted from the
+  // valuation date when positions are marked. It may lie before today, since
+  // the valuation date can be set back.
+  const dated = option.expiryDate !== undefined;
+  if (dated && !isISODate(option.expiryDate)) {
+    throw new ValidationError('expiryDate must be a date in YYYY-MM-DD format');
+  }
+
+  // Volatility may be omitted when a market price is given to imply it from
+  const impliesVolatility = option.volatility === undefined && option.marketPrice !== undefined;
+
   const requiredFields: (keyof Option)[] = [
     'ticker',
     'type',
@@ -21,35 +38,238 @@ function validateOption(option: Partial<Option>): option is Option {
   ];
 
   for (const field of requiredFields) {
+    if (field === 'volatility' && impliesVolatility) continue;
+    if (field === 'timeToExpiry' && dated) continue;
     if (option[field] === undefined) {
       throw new ValidationError(`Missing required field: ${field}`);
     }
   }
 
-  if (option.type !== 'Call' && option.type !== 'Put') {
-    throw new ValidationError('Option type must be either "Call" or "Put"');
+  if (option.type !== 'Call' && option.type !== 'Put' && !isDigitalType(option.type as OptionType)) {
+    throw new ValidationError(
+      `Option type must be one of "Call", "Put", ${DIGITAL_OPTION_TYPES.map(type => `"${type}"`).join(', ')}`
+    );
   }
 
   const numericFields: (keyof Option)[] = [
     'spotPrice',
     'strikePrice',
     'timeToExpiry',
-    'volatility',
-    'riskFreeRate',
-    'quantity'
+    'volatility'
   ];
 
+  // Rates may be zero or negative, down to the simulator's floor of -10%
+  if (typeof option.riskFreeRate !== 'number' || !Number.isFinite(option.riskFreeRate) || option.riskFreeRate < -0.1) {
+    throw new ValidationError('riskFreeRate must be a number no lower than -0.1');
+  }
+
+  // Short positions carry a negative quantity
+  if (typeof option.quantity !== 'number' || !Number.isFinite(option.quantity) || option.quantity === 0) {
+    throw new ValidationError('quantity must be a nonzero number, negative for short positions');
+  }
+
+  if (option.volatilityType !== undefined && !Object.keys(volatilityTypeLabels).includes(option.volatilityType)) {
+    throw new ValidationError('volatilityType must be either "lognormal" or "normal"');
+  }
+  // Under the normal model the underlying and strike may be zero or negative
+  const isNormal = option.volatilityType === 'normal';
+
   for (const field of numericFields) {
+    if (field === 'volatility' && impliesVolatility) continue;
+    if (field === 'timeToExpiry' && dated) continue;
     const value = option[field] as number;
+    if (isNormal && (field === 'spotPrice' || field === 'strikePrice')) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ValidationError(`${field} must be a number`);
+      }
+      continue;
+    }
     if (typeof value !== 'number' || isNaN(value) || value <= 0) {
       throw new ValidationError(`${field} must be a positive number`);
     }
   }
 
+  if (isNormal) {
+    if (option.type !== 'Call' && option.type !== 'Put') {
+      throw new ValidationError('Normal volatility is supported on vanilla calls and puts only');
+    }
+    if (option.exerciseStyle === 'American') {
+      throw new ValidationError('Normal-volatility options must be European');
+    }
+    if (option.barrierType !== undefined || option.averageType !== undefined) {
+      throw new ValidationError('Normal-volatility options cannot carry a barrier or averaging');
+    }
+  }
+
+  if (option.dividendYield !== undefined) {
+    const value = option.dividendYield;
+    if (typeof value !== 'number' || isNaN(value) || value < 0) {
+      throw new ValidationError('dividendYield must be a non-negative number');
+    }
+  }
+
+  if (option.multiplier !== undefined) {
+    const value = option.multiplier;
+    if (typeof value !== 'number' || isNaN(value) || value <= 0) {
+      throw new ValidationError('multiplier must be a positive number');
+    }
+  }
+
+  if (option.marketPrice !== undefined) {
+    const value = option.marketPrice;
+    if (typeof value !== 'number' || isNaN(value) || value <= 0) {
+      throw new ValidationError('marketPrice must be a positive number');
+    }
+  }
+
+  if (option.exerciseStyle !== undefined &&
+      option.exerciseStyle !== 'European' && option.exerciseStyle !== 'American') {
+    throw new ValidationError('exerciseStyle must be either "European" or "American"');
+  }
+
+  if (isDigitalType(option.type as OptionType)) {
+    if (option.exerciseStyle === 'American') {
+      throw new ValidationError('Digital options must be European');
+    }
+    if (option.marketPrice !== undefined) {
+      throw new ValidationError('Implying volatility from a market price is not supported for digital options');
+    }
+    if (option.cashPayout !== undefined) {
+      const value = option.cashPayout;
+      if (typeof value !== 'number' || isNaN(value) || value <= 0) {
+        throw new ValidationError('cashPayout must be a positive number');
+      }
+    }
+  }
+
+  if (option.barrierType !== undefined) {
+    if (!Object.keys(barrierTypeLabels).includes(option.barrierType)) {
+      throw new ValidationError('barrierType must be one of "downAndIn", "downAndOut", "upAndIn" or "upAndOut"');
+    }
+    if (option.type !== 'Call' && option.type !== 'Put') {
+      throw new ValidationError('Barriers are supported on vanilla calls and puts only');
+    }
+    if (option.exerciseStyle === 'American') {
+      throw new ValidationError('Barrier options must be European');
+    }
+    if (option.marketPrice !== undefined) {
+      throw new ValidationError('Implying volatility from a market price is not supported for barrier options');
+    }
+    const level = option.barrierLevel;
+    if (typeof level !== 'number' || isNaN(level) || level <= 0) {
+      throw new ValidationError('Barrier options need a positive barrierLevel');
+    }
+    if (option.rebate !== undefined) {
+      const value = option.rebate;
+      if (typeof value !== 'number' || isNaN(value) || value < 0) {
+        throw new ValidationError('rebate must be a non-negative number');
+      }
+    }
+  } else if (option.barrierLevel !== undefined || option.rebate !== undefined) {
+    throw new ValidationError('barrierLevel and rebate need a barrierType');
+  }
+
+  if (option.averageType !== undefined) {
+    if (!Object.keys(averageTypeLabels).includes(option.averageType)) {
+      throw new ValidationError('averageType must be either "price" or "strike"');
+    }
+    if (option.type !== 'Call' && option.type !== 'Put') {
+      throw new ValidationError('Averaging is supported on vanilla calls and puts only');
+    }
+    if (option.exerciseStyle === 'American') {
+      throw new ValidationError('Asian options must be European');
+    }
+    if (option.barrierType !== undefined) {
+      throw new ValidationError('Asian options cannot also carry a barrier');
+    }
+    if (option.marketPrice !== undefined) {
+      throw new ValidationError('Implying volatility from a market price is not supported for Asian options');
+    }
+    const fixingTimes = option.fixingTimes;
+    // Fixings are checked against expiry once dated expiries are counted
+    if (!Array.isArray(fixingTimes) || fixingTimes.some(t => typeof t !== 'number' || isNaN(t) || t <= 0)) {
+      throw new ValidationError('fixingTimes must be a list of times in years after the valuation date and no later than expiry');
+    }
+    const taken = option.fixingsTaken ?? 0;
+    if (typeof taken !== 'number' || !Number.isInteger(taken) || taken < 0) {
+      throw new ValidationError('fixingsTaken must be a non-negative whole number');
+    }
+    if (taken + fixingTimes.length === 0) {
+      throw new ValidationError('Asian options need at least one fixing');
+    }
+    if (taken > 0) {
+      const value = option.fixedAverage;
+      if (typeof value !== 'number' || isNaN(value) || value <= 0) {
+        throw new ValidationError('Asian options with fixings already taken need a positive fixedAverage');
+      }
+    }
+  } else if (option.fixingTimes !== undefined || option.fixingsTaken !== undefined || option.fixedAverage !== undefined) {
+    throw new ValidationError('fixingTimes, fixingsTaken and fixedAverage need an averageType');
+  }
+
+  if (option.underlyingType !== undefined &&
+      option.underlyingType !== 'equity' && option.underlyingType !== 'future' && option.underlyingType !== 'fx') {
+    throw new ValidationError('underlyingType must be one of "equity", "future" or "fx"');
+  }
+
+  if (option.underlyingType === 'fx') {
+    if (typeof option.currencyPair !== 'string' || !/^[A-Z]{6}$/.test(option.currencyPair)) {
+      throw new ValidationError('FX options need a currencyPair of two ISO currency codes, e.g. EURUSD');
+    }
+    const value = option.foreignRate;
+    if (typeof value !== 'number' || isNaN(value)) {
+      throw new ValidationError('FX options need a numeric foreignRate');
+    }
+  }
+
   return true;
 }
 
-export async function parseCSV(file: File): Promise<Option[]> {
+// A side column makes the quantity's sign explicit: "short" writes the
+// position. A negative quantity already means short and can't be marked long.
+function signedQuantity(quantity: number | undefined, side: unknown): number | undefined {
+  if (side === undefined || side === null || side === '') return quantity;
+  if (side !== 'long' && side !== 'short') {
+    throw new ValidationError('side must be either "long" or "short"');
+  }
+  if (typeof quantity !== 'number') return quantity;
+  if (quantity < 0 && side === 'long') {
+    throw new ValidationError('A long position cannot have a negative quantity');
+  }
+  return side === 'short' ? -Math.abs(quantity) : quantity;
+}
+
+// Fixing times come as a JSON array or, in CSV, as a semicolon-separated list
+function parseFixingTimes(value: unknown): number[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'number') return [value];
+  return String(value).split(';').map(time => parseFloat(time.trim()));
+}
+
+// Volatilities are implied from market prices when the book is priced, under
+// the settings in force then, so positions here keep the volatility they were given
+function preparePositions(
+  options: Option[],
+  valuation: ValuationSettings,
+  dividendSchedule?: DividendSchedule
+): Option[] {
+  const withDividends = dividendSchedule ? attachDividends(options, dividendSchedule) : options;
+  // A dated position's fixings are counted from the valuation date it was imported at
+  const anchored = withDividends.map(option => option.expiryDate && option.fixingTimes
+    ? { ...option, fixingsAsOf: valuation.date }
+    : option);
+  const dated = markToValuationDate(anchored, valuation);
+  dated.forEach(validateDividendsBeforeExpiry);
+  dated.forEach(validateFixingsBeforeExpiry);
+  return dated;
+}
+
+export async function parseCSV(
+  file: File,
+  valuation: ValuationSettings,
+  dividendSchedule?: DividendSchedule
+): Promise<Option[]> {
   return new Promise((resolve, reject) => {
     Papa.parse(file, {
       header: true,
@@ -60,14 +280,32 @@ export async function parseCSV(file: File): Promise<Option[]> {
             .filter((row: any) => Object.keys(row).length > 0) // Filter out empty rows
             .map((row: any) => {
               const option: Partial<Option> = {
-                ticker: row.ticker,
+                ticker: row.ticker ?? row.currencyPair,
                 type: row.type,
                 spotPrice: row.spotPrice,
-                strikePrice: row.strikePrice,
-                timeToExpiry: row.timeToExpiry,
-                volatility: row.volatility,
+                // Average-strike options set their own strike; the spot stands in for display
+                strikePrice: row.strikePrice ?? (row.averageType === 'strike' ? row.spotPrice : undefined),
+                timeToExpiry: row.expiryDate ? undefined : row.timeToExpiry,
+                expiryDate: row.expiryDate ? String(row.expiryDate) : undefined,
+                volatility: row.volatility ?? undefined,
                 riskFreeRate: row.riskFreeRate,
-                quantity: row.quantity
+                quantity: signedQuantity(row.quantity, row.side),
+                multiplier: row.multiplier ?? undefined,
+                dividendYield: row.dividendYield ?? undefined,
+                exerciseStyle: row.exerciseStyle || undefined,
+                underlyingType: row.underlyingType || undefined,
+                volatilityType: row.volatilityType || undefined,
+                currencyPair: row.currencyPair || undefined,
+                foreignRate: row.foreignRate ?? undefined,
+                cashPayout: row.cashPayout ?? undefined,
+                barrierType: row.barrierType || undefined,
+                barrierLevel: row.barrierLevel ?? undefined,
+                rebate: row.rebate ?? undefined,
+                averageType: row.averageType || undefined,
+                fixingTimes: parseFixingTimes(row.fixingTimes),
+                fixingsTaken: row.fixingsTaken ?? undefined,
+                fixedAverage: row.fixedAverage ?? undefined,
+                marketPrice: row.marketPrice ?? undefined
               };
 
               if (validateOption(option)) {
@@ -76,7 +314,7 @@ export async function parseCSV(file: File): Promise<Option[]> {
               return null;
             });
 
-          resolve(options.filter((opt): opt is Option => opt !== null));
+          resolve(preparePositions(options.filter((opt): opt is Option => opt !== null), valuation, dividendSchedule));
         } catch (error) {
           reject(error);
         }
@@ -88,7 +326,11 @@ export async function parseCSV(file: File): Promise<Option[]> {
   });
 }
 
-export async function parseJSON(file: File): Promise<Option[]> {
+export async function parseJSON(
+  file: File,
+  valuation: ValuationSettings,
+  dividendSchedule?: DividendSchedule
+): Promise<Option[]> {
   try {
     const text = await file.text();
     const data = JSON.parse(text);
@@ -101,14 +343,32 @@ export async function parseJSON(file: File): Promise<Option[]> {
       .filter((item: any) => Object.keys(item).length > 0) // Filter out empty objects
       .map((item: any) => {
         const option: Partial<Option> = {
-          ticker: item.ticker,
+          ticker: item.ticker ?? item.currencyPair,
           type: item.type,
           spotPrice: item.spotPrice,
-          strikePrice: item.strikePrice,
-          timeToExpiry: item.timeToExpiry,
+          // Average-strike options set their own strike; the spot stands in for display
+          strikePrice: item.strikePrice ?? (item.averageType === 'strike' ? item.spotPrice : undefined),
+          timeToExpiry: item.expiryDate ? undefined : item.timeToExpiry,
+          expiryDate: item.expiryDate ? String(item.expiryDate) : undefined,
           volatility: item.volatility,
           riskFreeRate: item.riskFreeRate,
-          quantity: item.quantity
+          quantity: signedQuantity(item.quantity, item.side),
+          multiplier: item.multiplier ?? undefined,
+          dividendYield: item.dividendYield ?? undefined,
+          exerciseStyle: item.exerciseStyle || undefined,
+          underlyingType: item.underlyingType || undefined,
+          volatilityType: item.volatilityType || undefined,
+          currencyPair: item.currencyPair || undefined,
+          foreignRate: item.foreignRate ?? undefined,
+          cashPayout: item.cashPayout ?? undefined,
+          barrierType: item.barrierType || undefined,
+          barrierLevel: item.barrierLevel ?? undefined,
+          rebate: item.rebate ?? undefined,
+          averageType: item.averageType || undefined,
+          fixingTimes: parseFixingTimes(item.fixingTimes),
+          fixingsTaken: item.fixingsTaken ?? undefined,
+          fixedAverage: item.fixedAverage ?? undefined,
+          marketPrice: item.marketPrice ?? undefined
         };
 
         if (validateOption(option)) {
@@ -117,12 +377,163 @@ export async function parseJSON(file: File): Promise<Option[]> {
         return null;
       });
 
-    return options.filter((opt): opt is Option => opt !== null);
+    return preparePositions(options.filter((opt): opt is Option => opt !== null), valuation, dividendSchedule);
   } catch (error) {
     if (error instanceof ValidationError) {
       throw error;
     }
-    throw new Error(`JSON parsing error: ${error.message}`);
+    throw new Error(`JSON parsing error: ${(error as Error).message}`);
+  }
+}
+
+function validateDividend(row: any, rowNumber: number): CashDividend {
+  if (!row.ticker || typeof row.ticker !== 'string') {
+    throw new ValidationError(`Dividend row ${rowNumber}: missing ticker`);
+  }
+  if (!isISODate(row.exDate)) {
+    throw new ValidationError(`Dividend row ${rowNumber}: exDate must be a date in YYYY-MM-DD format`);
+  }
+  const amount = typeof row.amount === 'string' ? parseFloat(row.amount) : row.amount;
+  if (typeof amount !== 'number' || isNaN(amount) || amount < 0) {
+    throw new ValidationError(`Dividend row ${rowNumber}: amount must be a non-negative number`);
+  }
+
+  // timeToExDate is counted from the valuation date when positions are marked
+  return {
+    exDate: row.exDate,
+    timeToExDate: 0,
+    amount
+  };
+}
+
+export async function parseDividendCSV(file: File): Promise<DividendSchedule> {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        try {
+          const schedule: DividendSchedule = {};
+          results.data.forEach((row: any, index: number) => {
+            const dividend = validateDividend(row, index + 1);
+            const ticker = row.ticker.trim();
+            (schedule[ticker] ??= []).push(dividend);
+          });
+
+          Object.values(schedule).forEach(dividends =>
+            dividends.sort((a, b) => a.exDate.localeCompare(b.exDate))
+          );
+
+          resolve(schedule);
+        } catch (error) {
+          reject(error);
+        }
+      },
+      error: (error) => {
+        reject(new Error(`Dividend CSV parsing error: ${error.message}`));
+      }
+    });
+  });
+}
+
+// Holiday calendar CSV with a date column (YYYY-MM-DD) and an optional name
+export async function parseHolidayCSV(file: File): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        try {
+          const dates = results.data.map((row: any, index: number) => {
+            const date = typeof row.date === 'string' ? row.date.trim() : row.date;
+            if (!isISODate(date)) {
+              throw new ValidationError(`Holiday row ${index + 1}: date must be a date in YYYY-MM-DD format`);
+            }
+            return date;
+          });
+          resolve(Array.from(new Set(dates)).sort());
+        } catch (error) {
+          reject(error);
+        }
+      },
+      error: (error) => {
+        reject(new Error(`Holiday CSV parsing error: ${error.message}`));
+      }
+    });
+  });
+}
+
+// Zero curve CSV with tenor (years) and zeroRate (decimal, continuously compounded) columns
+export async function parseYieldCurveCSV(file: File): Promise<YieldCurve> {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        try {
+          const points = results.data.map((row: any, index: number) => {
+            const tenor = typeof row.tenor === 'string' ? parseFloat(row.tenor) : row.tenor;
+            const zeroRate = typeof row.zeroRate === 'string' ? parseFloat(row.zeroRate) : row.zeroRate;
+            if (typeof tenor !== 'number' || !(tenor > 0)) {
+              throw new ValidationError(`Curve row ${index + 1}: tenor must be a positive number of years`);
+            }
+            if (typeof zeroRate !== 'number' || !Number.isFinite(zeroRate) || zeroRate < -0.1 || zeroRate > 0.5) {
+              throw new ValidationError(`Curve row ${index + 1}: zeroRate must be a decimal rate between -0.1 and 0.5`);
+            }
+            return { tenor, zeroRate };
+          });
+
+          if (points.length === 0) {
+            throw new ValidationError('Curve file has no tenor/zeroRate rows');
+          }
+          points.sort((a, b) => a.tenor - b.tenor);
+          points.forEach((point, i) => {
+            if (i > 0 && point.tenor === points[i - 1].tenor) {
+              throw new ValidationError(`Curve has more than one rate for tenor ${point.tenor}`);
+            }
+          });
+
+          resolve({
+            tenors: points.map(point => point.tenor),
+            zeroRates: points.map(point => point.zeroRate)
+          });
+        } catch (error) {
+          reject(error);
+        }
+      },
+      error: (error) => {
+        reject(new Error(`Curve CSV parsing error: ${error.message}`));
+      }
+    });
+  });
+}
+
+// Attach each ticker's dividend schedule to its positions. Futures prices
+// already reflect expected dividends and currencies pay none, so only equity
+// options take a schedule.
+export function attachDividends(options: Option[], schedule: DividendSchedule): Option[] {
+  return options.map(option => {
+    const dividends = schedule[option.ticker];
+    if (!dividends || (option.underlyingType ?? 'equity') !== 'equity') return option;
+    return { ...option, dividends };
+  });
+}
+
+// Once dated, every remaining fixing must fall on or before expiry
+function validateFixingsBeforeExpiry(option: Option): void {
+  if (option.fixingTimes?.some(t => t > option.timeToExpiry)) {
+    throw new ValidationError('fixingTimes must be a list of times in years after the valuation date and no later than expiry');
+  }
+}
+
+// Once dated, the dividends paid before expiry must leave some spot to escrow
+function validateDividendsBeforeExpiry(option: Option): void {
+  if (!option.dividends) return;
+  const dividendPV = presentValueOfDividends(option.dividends, option.riskFreeRate, option.timeToExpiry);
+  if (dividendPV >= option.spotPrice) {
+    throw new ValidationError(
+      `Dividends for ${option.ticker} before expiry exceed the spot price`
+    );
   }
 }
 
@@ -135,20 +546,49 @@ export function generateSampleCSV(): string {
     'timeToExpiry',
     'volatility',
     'riskFreeRate',
-    'quantity'
+    'quantity',
+    'dividendYield',
+    'exerciseStyle',
+    'underlyingType',
+    'currencyPair',
+    'foreignRate',
+    'cashPayout',
+    'barrierType',
+    'barrierLevel',
+    'rebate',
+    'averageType',
+    'fixingTimes',
+    'fixingsTaken',
+    'fixedAverage',
+    'volatilityType',
+    'multiplier'
   ].join(',');
 
   const sampleData = [
-    'AAPL,Call,150,155,0.5,0.3,0.05,10',
-    'AAPL,Put,150,145,0.25,0.35,0.05,5',
-    'GOOGL,Call,2800,2850,0.75,0.25,0.05,3',
-    'GOOGL,Put,2800,2750,0.5,0.28,0.05,4',
-    'MSFT,Call,310,315,0.3,0.22,0.05,8',
-    'MSFT,Put,310,305,0.6,0.24,0.05,6',
-    'TSLA,Call,220,225,0.4,0.45,0.05,5',
-    'TSLA,Put,220,215,0.35,0.42,0.05,7',
-    'NVDA,Call,480,490,0.45,0.38,0.05,4',
-    'NVDA,Put,480,470,0.55,0.36,0.05,3'
+    'AAPL,Call,150,155,0.5,0.3,0.05,10,0.005,American,equity,,,,,,,,,,,,',
+    'AAPL,Put,150,145,0.25,0.35,0.05,5,0.005,American,equity,,,,,,,,,,,,',
+    'GOOGL,Call,2800,2850,0.75,0.25,0.05,3,0,European,equity,,,,,,,,,,,,',
+    'GOOGL,Put,2800,2750,0.5,0.28,0.05,4,0,European,equity,,,,,,,,,,,,',
+    'MSFT,Call,310,315,0.3,0.22,0.05,8,0.008,American,equity,,,,,,,,,,,,',
+    'MSFT,Put,310,305,0.6,0.24,0.05,6,0.008,American,equity,,,,,,,,,,,,',
+    'AAPL,Put,150,140,0.25,0.32,0.05,-10,0.005,American,equity,,,,,,,,,,,,',
+    'MSFT,Call,310,330,0.25,0.22,0.05,-8,0.008,American,equity,,,,,,,,,,,,',
+    'TSLA,Call,220,225,0.4,0.45,0.05,5,0,American,equity,,,,,,,,,,,,',
+    'TSLA,Put,220,215,0.35,0.42,0.05,7,0,American,equity,,,,,,,,,,,,',
+    'NVDA,Call,480,490,0.45,0.38,0.05,4,0.0004,European,equity,,,,,,,,,,,,',
+    'NVDA,Put,480,470,0.55,0.36,0.05,3,0.0004,European,equity,,,,,,,,,,,,',
+    'ES,Call,5000,5100,0.25,0.18,0.05,2,0,American,future,,,,,,,,,,,,50',
+    'CL,Put,75,70,0.3,0.35,0.05,10,0,American,future,,,,,,,,,,,,1000',
+    'EURUSD,Call,1.085,1.1,0.5,0.08,0.045,1000000,,European,fx,EURUSD,0.03,,,,,,,,,,',
+    'GBPUSD,Put,1.27,1.25,0.25,0.09,0.045,500000,,European,fx,GBPUSD,0.04,,,,,,,,,,',
+    'AAPL,CashOrNothingCall,150,160,0.5,0.3,0.05,20,0.005,European,equity,,,10,,,,,,,,,',
+    'NVDA,AssetOrNothingPut,480,450,0.25,0.38,0.05,2,0.0004,European,equity,,,,,,,,,,,,',
+    'TSLA,Call,220,230,0.5,0.45,0.05,10,0,European,equity,,,,upAndOut,280,2,,,,,,',
+    'MSFT,Put,310,300,0.5,0.24,0.05,5,0.008,European,equity,,,,downAndIn,270,,,,,,,',
+    'CL,Call,75,78,0.5,0.35,0.05,10,0,European,future,,,,,,,price,0.0833;0.1667;0.25;0.3333;0.4167;0.5,,,,1000',
+    'CL,Put,75,72,0.25,0.35,0.05,10,0,European,future,,,,,,,price,0.0833;0.1667;0.25,3,74.2,,1000',
+    'GOOGL,Call,2800,,0.5,0.25,0.05,2,0,European,equity,,,,,,,strike,0.125;0.25;0.375;0.5,,,,',
+    'CL-SPREAD,Call,-0.5,0,0.25,1.5,0.05,20,0,European,future,,,,,,,,,,,normal,'
   ];
 
   return [headers, ...sampleData].join('\n');
@@ -164,7 +604,10 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.5,
       volatility: 0.3,
       riskFreeRate: 0.05,
-      quantity: 10
+      quantity: 10,
+      dividendYield: 0.005,
+      exerciseStyle: 'American',
+      underlyingType: 'equity'
     },
     {
       ticker: 'AAPL',
@@ -174,7 +617,10 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.25,
       volatility: 0.35,
       riskFreeRate: 0.05,
-      quantity: 5
+      quantity: 5,
+      dividendYield: 0.005,
+      exerciseStyle: 'American',
+      underlyingType: 'equity'
     },
     {
       ticker: 'GOOGL',
@@ -184,7 +630,10 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.75,
       volatility: 0.25,
       riskFreeRate: 0.05,
-      quantity: 3
+      quantity: 3,
+      dividendYield: 0,
+      exerciseStyle: 'European',
+      underlyingType: 'equity'
     },
     {
       ticker: 'GOOGL',
@@ -194,7 +643,10 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.5,
       volatility: 0.28,
       riskFreeRate: 0.05,
-      quantity: 4
+      quantity: 4,
+      dividendYield: 0,
+      exerciseStyle: 'European',
+      underlyingType: 'equity'
     },
     {
       ticker: 'MSFT',
@@ -204,7 +656,10 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.3,
       volatility: 0.22,
       riskFreeRate: 0.05,
-      quantity: 8
+      quantity: 8,
+      dividendYield: 0.008,
+      exerciseStyle: 'American',
+      underlyingType: 'equity'
     },
     {
       ticker: 'MSFT',
@@ -214,7 +669,37 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.6,
       volatility: 0.24,
       riskFreeRate: 0.05,
-      quantity: 6
+      quantity: 6,
+      dividendYield: 0.008,
+      exerciseStyle: 'American',
+      underlyingType: 'equity'
+    },
+    {
+      ticker: 'AAPL',
+      type: 'Put',
+      spotPrice: 150,
+      strikePrice: 140,
+      timeToExpiry: 0.25,
+      volatility: 0.32,
+      riskFreeRate: 0.05,
+      quantity: 10,
+      side: 'short',
+      dividendYield: 0.005,
+      exerciseStyle: 'American',
+      underlyingType: 'equity'
+    },
+    {
+      ticker: 'MSFT',
+      type: 'Call',
+      spotPrice: 310,
+      strikePrice: 330,
+      timeToExpiry: 0.25,
+      volatility: 0.22,
+      riskFreeRate: 0.05,
+      quantity: -8,
+      dividendYield: 0.008,
+      exerciseStyle: 'American',
+      underlyingType: 'equity'
     },
     {
       ticker: 'TSLA',
@@ -224,7 +709,10 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.4,
       volatility: 0.45,
       riskFreeRate: 0.05,
-      quantity: 5
+      quantity: 5,
+      dividendYield: 0,
+      exerciseStyle: 'American',
+      underlyingType: 'equity'
     },
     {
       ticker: 'TSLA',
@@ -234,7 +722,10 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.35,
       volatility: 0.42,
       riskFreeRate: 0.05,
-      quantity: 7
+      quantity: 7,
+      dividendYield: 0,
+      exerciseStyle: 'American',
+      underlyingType: 'equity'
     },
     {
       ticker: 'NVDA',
@@ -244,7 +735,10 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.45,
       volatility: 0.38,
       riskFreeRate: 0.05,
-      quantity: 4
+      quantity: 4,
+      dividendYield: 0.0004,
+      exerciseStyle: 'European',
+      underlyingType: 'equity'
     },
     {
       ticker: 'NVDA',
@@ -254,9 +748,267 @@ export function generateSampleJSON(): string {
       timeToExpiry: 0.55,
       volatility: 0.36,
       riskFreeRate: 0.05,
-      quantity: 3
+      quantity: 3,
+      dividendYield: 0.0004,
+      exerciseStyle: 'European',
+      underlyingType: 'equity'
+    },
+    {
+      ticker: 'ES',
+      type: 'Call',
+      spotPrice: 5000,
+      strikePrice: 5100,
+      timeToExpiry: 0.25,
+      volatility: 0.18,
+      riskFreeRate: 0.05,
+      quantity: 2,
+      dividendYield: 0,
+      exerciseStyle: 'American',
+      underlyingType: 'future',
+      multiplier: 50
+    },
+    {
+      ticker: 'CL',
+      type: 'Put',
+      spotPrice: 75,
+      strikePrice: 70,
+      timeToExpiry: 0.3,
+      volatility: 0.35,
+      riskFreeRate: 0.05,
+      quantity: 10,
+      dividendYield: 0,
+      exerciseStyle: 'American',
+      underlyingType: 'future',
+      multiplier: 1000
+    },
+    {
+      ticker: 'EURUSD',
+      type: 'Call',
+      spotPrice: 1.085,
+      strikePrice: 1.1,
+      timeToExpiry: 0.5,
+      volatility: 0.08,
+      riskFreeRate: 0.045,
+      quantity: 1000000,
+      exerciseStyle: 'European',
+      underlyingType: 'fx',
+      currencyPair: 'EURUSD',
+      foreignRate: 0.03
+    },
+    {
+      ticker: 'GBPUSD',
+      type: 'Put',
+      spotPrice: 1.27,
+      strikePrice: 1.25,
+      timeToExpiry: 0.25,
+      volatility: 0.09,
+      riskFreeRate: 0.045,
+      quantity: 500000,
+      exerciseStyle: 'European',
+      underlyingType: 'fx',
+      currencyPair: 'GBPUSD',
+      foreignRate: 0.04
+    },
+    {
+      ticker: 'AAPL',
+      type: 'CashOrNothingCall',
+      spotPrice: 150,
+      strikePrice: 160,
+      timeToExpiry: 0.5,
+      volatility: 0.3,
+      riskFreeRate: 0.05,
+      quantity: 20,
+      dividendYield: 0.005,
+      exerciseStyle: 'European',
+      underlyingType: 'equity',
+      cashPayout: 10
+    },
+    {
+      ticker: 'NVDA',
+      type: 'AssetOrNothingPut',
+      spotPrice: 480,
+      strikePrice: 450,
+      timeToExpiry: 0.25,
+      volatility: 0.38,
+      riskFreeRate: 0.05,
+      quantity: 2,
+      dividendYield: 0.0004,
+      exerciseStyle: 'European',
+      underlyingType: 'equity'
+    },
+    {
+      ticker: 'TSLA',
+      type: 'Call',
+      spotPrice: 220,
+      strikePrice: 230,
+      timeToExpiry: 0.5,
+      volatility: 0.45,
+      riskFreeRate: 0.05,
+      quantity: 10,
+      dividendYield: 0,
+      exerciseStyle: 'European',
+      underlyingType: 'equity',
+      barrierType: 'upAndOut',
+      barrierLevel: 280,
+      rebate: 2
+    },
+    {
+      ticker: 'MSFT',
+      type: 'Put',
+      spotPrice: 310,
+      strikePrice: 300,
+      timeToExpiry: 0.5,
+      volatility: 0.24,
+      riskFreeRate: 0.05,
+      quantity: 5,
+      dividendYield: 0.008,
+      exerciseStyle: 'European',
+      underlyingType: 'equity',
+      barrierType: 'downAndIn',
+      barrierLevel: 270
+    },
+    {
+      ticker: 'CL',
+      type: 'Call',
+      spotPrice: 75,
+      strikePrice: 78,
+      timeToExpiry: 0.5,
+      volatility: 0.35,
+      riskFreeRate: 0.05,
+      quantity: 10,
+      dividendYield: 0,
+      exerciseStyle: 'European',
+      underlyingType: 'future',
+      multiplier: 1000,
+      averageType: 'price',
+      fixingTimes: [0.0833, 0.1667, 0.25, 0.3333, 0.4167, 0.5]
+    },
+    {
+      ticker: 'CL',
+      type: 'Put',
+      spotPrice: 75,
+      strikePrice: 72,
+      timeToExpiry: 0.25,
+      volatility: 0.35,
+      riskFreeRate: 0.05,
+      quantity: 10,
+      dividendYield: 0,
+      exerciseStyle: 'European',
+      underlyingType: 'future',
+      multiplier: 1000,
+      averageType: 'price',
+      fixingTimes: [0.0833, 0.1667, 0.25],
+      fixingsTaken: 3,
+      fixedAverage: 74.2
+    },
+    {
+      ticker: 'GOOGL',
+      type: 'Call',
+      spotPrice: 2800,
+      timeToExpiry: 0.5,
+      volatility: 0.25,
+      riskFreeRate: 0.05,
+      quantity: 2,
+      dividendYield: 0,
+      exerciseStyle: 'European',
+      underlyingType: 'equity',
+      averageType: 'strike',
+      fixingTimes: [0.125, 0.25, 0.375, 0.5]
+    },
+    {
+      ticker: 'CL-SPREAD',
+      type: 'Call',
+      spotPrice: -0.5,
+      strikePrice: 0,
+      timeToExpiry: 0.25,
+      volatility: 1.5,
+      riskFreeRate: 0.05,
+      quantity: 20,
+      dividendYield: 0,
+      exerciseStyle: 'European',
+      underlyingType: 'future',
+      volatilityType: 'normal'
+    },
+    {
+      // Dated expiry: time to expiry is counted from the valuation date
+      ticker: 'SPY',
+      type: 'Put',
+      spotPrice: 520,
+      strikePrice: 500,
+      expiryDate: addDays(todayISO(), 91),
+      volatility: 0.18,
+      riskFreeRate: 0.05,
+      quantity: 10,
+      dividendYield: 0.013,
+      exerciseStyle: 'European',
+      underlyingType: 'equity'
     }
   ];
 
   return JSON.stringify(sampleData, null, 2);
-} 
\ No newline at end of file
+}
+
+export function generateSampleDividendCSV(): string {
+  const today = new Date();
+  const inDays = (days: number) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  };
+
+  const rows = [
+    'ticker,exDate,amount',
+    `AAPL,${inDays(30)},0.25`,
+    `AAPL,${inDays(121)},0.25`,
+    `MSFT,${inDays(45)},0.83`,
+    `MSFT,${inDays(136)},0.83`,
+    `NVDA,${inDays(60)},0.01`
+  ];
+
+  return rows.join('\n');
+}
+
+export function generateSampleYieldCurveCSV(): string {
+  const rows = [
+    'tenor,zeroRate',
+    '0.25,0.0530',
+    '0.5,0.0520',
+    '1,0.0495',
+    '2,0.0455',
+    '5,0.0420',
+    '10,0.0425',
+    '30,0.0445'
+  ];
+
+  return rows.join('\n');
+}
+
+// NYSE market holidays
+export function generateSampleHolidayCSV(): string {
+  const rows = [
+    'date,name',
+    "2026-01-01,New Year's Day",
+    '2026-01-19,Martin Luther King Jr. Day',
+    "2026-02-16,Washington's Birthday",
+    '2026-04-03,Good Friday',
+    '2026-05-25,Memorial Day',
+    '2026-06-19,Juneteenth',
+    '2026-07-03,Independence Day (observed)',
+    '2026-09-07,Labor Day',
+    '2026-11-26,Thanksgiving Day',
+    '2026-12-25,Christmas Day',
+    "2027-01-01,New Year's Day",
+    '2027-01-18,Martin Luther King Jr. Day',
+    "2027-02-15,Washington's Birthday",
+    '2027-03-26,Good Friday',
+    '2027-05-31,Memorial Day',
+    '2027-06-18,Juneteenth (observed)',
+    '2027-07-05,Independence Day (observed)',
+    '2027-09-06,Labor Day',
+    '2027-11-25,Thanksgiving Day',
+    '2027-12-24,Christmas Day (observed)'
+  ];
+
+  return rows.join('\n');
+}
@@ -0,0 +1,292 @@
+import {
+  ExerciseStyle,
+  FiniteDifferenceBoundary,
+  FiniteDifferenceSettings,
+  PricingInputs,
+  PricingResult
+} from '@/types/option';
+
+export const DEFAULT_FINITE_DIFFERENCE_SETTINGS: FiniteDifferenceSettings = {
+  spotSteps: 200,
+  timeSteps: 200,
+  spotRange: 5,
+  boundary: 'dirichlet'
+};
+
+export const finiteDifferenceBoundaryLabels: Record<FiniteDifferenceBoundary, string> = {
+  dirichlet: 'Asymptotic values (Dirichlet)',
+  linearity: 'Zero gamma (linearity)'
+};
+
+// Option values over the whole grid, from expiry back to today
+export interface FiniteDifferenceGrid {
+  spots: number[];
+  timesToExpiry: number[];  // Ascending, from 0 at expiry to T today
+  values: number[][];       // values[n][i] at timesToExpiry[n] and spots[i]
+}
+
+const MIN_SPOT_STEPS = 20;
+const MIN_TIME_STEPS = 10;
+// Nodes kept either side of the spot so the five-point speed stencil fits
+const MIN_NODES_AROUND_SPOT = 2;
+// The grid reaches at least this far in log-spot above the spot or strike
+const MIN_LOG_RANGE = 0.25;
+// Time steps at expiry taken as two fully implicit half steps (Rannacher
+// start-up), which damps the oscillation Crank-Nicolson leaves at the payoff kink
+const RANNACHER_STEPS = 2;
+const PSOR_RELAXATION = 1.2;
+const PSOR_TOLERANCE = 1e-20;
+const PSOR_MAX_ITERATIONS = 1000;
+
+// Bump sizes for the Greeks that cannot be read off a single grid
+const VOL_BUMP = 0.001;
+// The early exercise boundary crosses grid nodes as σ moves, leaving kinks in
+// the value that swamp a narrow second difference, so volga bumps wider
+const VOLGA_BUMP = 0.01;
+const RATE_BUMP = 0.0001;
+
+// Uniform spot grid from 0 with the spot on a node
+interface GridGeometry {
+  dS: number;
+  spotIndex: number;
+  steps: number;
+}
+
+function gridGeometry(inputs: PricingInputs, settings: FiniteDifferenceSettings): GridGeometry {
+  const { spot: S, strike: K, volatility: sigma, timeToExpiry: T } = inputs;
+  const spotSteps = Math.max(MIN_SPOT_STEPS, Math.round(settings.spotSteps));
+  const logRange = Math.max(settings.spotRange * sigma * Math.sqrt(T), MIN_LOG_RANGE);
+  const maxSpot = Math.max(S, K) * Math.exp(logRange);
+
+  const spotIndex = Math.max(MIN_NODES_AROUND_SPOT, Math.round(spotSteps * S / maxSpot));
+  const dS = S / spotIndex;
+  const steps = Math.max(Math.ceil(maxSpot / dS), spotIndex + MIN_NODES_AROUND_SPOT);
+  return { dS, spotIndex, steps };
+}
+
+interface GridLevels {
+  levels: Float64Array[];   // Every time level, or just the last three when the grid isn't kept
+  dt: number;
+}
+
+// Roll the payoff back from expiry with the θ-scheme on
+// ∂V/∂τ = ½σ²S²∂²V/∂S² + (r - q)S∂V/∂S - rV, Crank-Nicolson after the
+// Rannacher start-up. Early exercise makes each step a linear complementarity
+// problem, solved by projected SOR.
+function rollBack(
+  inputs: PricingInputs,
+  exerciseStyle: ExerciseStyle,
+  geometry: GridGeometry,
+  settings: FiniteDifferenceSettings,
+  keepGrid: boolean
+): GridLevels {
+  const { strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma, type } = inputs;
+  const { dS, steps: N } = geometry;
+  const timeSteps = Math.max(MIN_TIME_STEPS, Math.round(settings.timeSteps));
+  const dt = T / timeSteps;
+  const sign = type === 'Call' ? 1 : -1;
+  const isAmerican = exerciseStyle === 'American';
+  const linearity = settings.boundary === 'linearity';
+
+  const payoff = new Float64Array(N + 1);
+  for (let i = 0; i <= N; i++) {
+    payoff[i] = Math.max(0, sign * (i * dS - K));
+  }
+
+  // Spatial operator at node i: lower[i]·V[i-1] + centre[i]·V[i] + upper[i]·V[i+1]
+  const lower = new Float64Array(N + 1);
+  const centre = new Float64Array(N + 1);
+  const upper = new Float64Array(N + 1);
+  for (let i = 1; i < N; i++) {
+    const diffusion = sigma * sigma * i * i;
+    const drift = (r - q) * i;
+    lower[i] = 0.5 * (diffusion - drift);
+    centre[i] = -diffusion - r;
+    upper[i] = 0.5 * (diffusion + drift);
+  }
+
+  // Asymptotic values at S = 0 and the top of the grid
+  const maxSpot = N * dS;
+  const edgeValues = (tau: number): [number, number] => {
+    if (type === 'Call') {
+      const forwardValue = maxSpot * Math.exp(-q * tau) - K * Math.exp(-r * tau);
+      return [0, isAmerican ? Math.max(forwardValue, maxSpot - K) : forwardValue];
+    }
+    return [isAmerican ? K : K * Math.exp(-r * tau), 0];
+  };
+
+  const sub = new Float64Array(N);
+  const diag = new Float64Array(N);
+  const sup = new Float64Array(N);
+  const rhs = new Float64Array(N);
+  const scratch = new Float64Array(N);
+
+  let values = Float64Array.from(payoff);
+  const levels: Float64Array[] = [values];
+
+  const step = (tau: number, h: number, theta: number) => {
+    const explicit = (1 - theta) * h;
+    for (let i = 1; i < N; i++) {
+      rhs[i] = values[i] + explicit * (lower[i] * values[i - 1] + centre[i] * values[i] + upper[i] * values[i + 1]);
+      sub[i] = -theta * h * lower[i];
+      diag[i] = 1 - theta * h * centre[i];
+      sup[i] = -theta * h * upper[i];
+    }
+
+    const next = new Float64Array(N + 1);
+    if (linearity) {
+      // Substitute V[0] = 2V[1] - V[2] and V[N] = 2V[N-1] - V[N-2]
+      diag[1] += 2 * sub[1];
+      sup[1] -= sub[1];
+      diag[N - 1] += 2 * sup[N - 1];
+      sub[N - 1] -= sup[N - 1];
+    } else {
+      [next[0], next[N]] = edgeValues(tau + h);
+      rhs[1] -= sub[1] * next[0];
+      rhs[N - 1] -= sup[N - 1] * next[N];
+    }
+    sub[1] = 0;
+    sup[N - 1] = 0;
+
+    if (isAmerican) {
+      for (let i = 1; i < N; i++) next[i] = Math.max(values[i], payoff[i]);
+      for (let iteration = 0; iteration < PSOR_MAX_ITERATIONS; iteration++) {
+        let change = 0;
+        for (let i = 1; i < N; i++) {
+          const gaussSeidel = (rhs[i] - sub[i] * next[i - 1] - sup[i] * next[i + 1]) / diag[i];
+          const updated = Math.max(payoff[i], next[i] + PSOR_RELAXATION * (gaussSeidel - next[i]));
+          change += (updated - next[i]) * (updated - next[i]);
+          next[i] = updated;
+        }
+        if (change < PSOR_TOLERANCE) break;
+      }
+    } else {
+      // Thomas algorithm
+      scratch[1] = sup[1] / diag[1];
+      next[1] = rhs[1] / diag[1];
+      for (let i = 2; i < N; i++) {
+        const pivot = diag[i] - sub[i] * scratch[i - 1];
+        scratch[i] = sup[i] / pivot;
+        next[i] = (rhs[i] - sub[i] * next[i - 1]) / pivot;
+      }
+      for (let i = N - 2; i >= 1; i--) {
+        next[i] -= scratch[i] * next[i + 1];
+      }
+    }
+
+    if (linearity) {
+      next[0] = 2 * next[1] - next[2];
+      next[N] = 2 * next[N - 1] - next[N - 2];
+      if (isAmerican) {
+        next[0] = Math.max(next[0], payoff[0]);
+        next[N] = Math.max(next[N], payoff[N]);
+      }
+    }
+    values = next;
+  };
+
+  for (let n = 0; n < timeSteps; n++) {
+    const tau = n * dt;
+    if (n < RANNACHER_STEPS) {
+      step(tau, dt / 2, 1);
+      step(tau + dt / 2, dt / 2, 1);
+    } else {
+      step(tau, dt, 0.5);
+    }
+    levels.push(values);
+    if (!keepGrid && levels.length > 3) levels.shift();
+  }
+
+  return { levels, dt };
+}
+
+// Today's value with delta and gamma from the nodes around the spot
+function readSpot(levels: Float64Array[], geometry: GridGeometry) {
+  const { dS, spotIndex: j } = geometry;
+  const values = levels[levels.length - 1];
+  return {
+    price: values[j],
+    delta: (values[j + 1] - values[j - 1]) / (2 * dS),
+    gamma: (values[j + 1] - 2 * values[j] + values[j - 1]) / (dS * dS)
+  };
+}
+
+// Price a vanilla call or put on a Crank-Nicolson finite-difference grid.
+// Delta, gamma, speed, theta, charm and color are read off the grid at the
+// spot node and one time step later; the vega and rho families come from
+// re-solving on the same grid with bumped inputs.
+export function priceFiniteDifference(
+  inputs: PricingInputs,
+  exerciseStyle: ExerciseStyle,
+  settings: FiniteDifferenceSettings = DEFAULT_FINITE_DIFFERENCE_SETTINGS
+): PricingResult {
+  const { volatility: sigma, riskFreeRate: r, dividendYield: q } = inputs;
+  const geometry = gridGeometry(inputs, settings);
+  const { dS, spotIndex: j } = geometry;
+  const solve = (changes: Partial<PricingInputs>) =>
+    rollBack({ ...inputs, ...changes }, exerciseStyle, geometry, settings, false);
+
+  const { levels, dt } = solve({});
+  const today = levels[levels.length - 1];
+  const { price, delta, gamma } = readSpot(levels, geometry);
+
+  const speed = (today[j + 2] - 2 * today[j + 1] + 2 * today[j - 1] - today[j - 2]) / (2 * dS * dS * dS);
+
+  // Theta is the value change as calendar time passes, i.e. as T shrinks.
+  // Second-order one-sided differences over the next two time levels.
+  const later = readSpot(levels.slice(0, -1), geometry);
+  const latest = readSpot(levels.slice(0, -2), geometry);
+  const timeDerivative = (now: number, next: number, after: number) => (4 * next - 3 * now - after) / (2 * dt);
+  const theta = timeDerivative(price, later.price, latest.price);
+  const charm = timeDerivative(delta, later.delta, latest.delta);
+  const color = timeDerivative(gamma, later.gamma, latest.gamma);
+
+  const priceAt = (changes: Partial<PricingInputs>) => readSpot(solve(changes).levels, geometry).price;
+
+  const volBump = Math.min(VOL_BUMP, sigma / 2);
+  const volUp = readSpot(solve({ volatility: sigma + volBump }).levels, geometry);
+  const volDown = readSpot(solve({ volatility: sigma - volBump }).levels, geometry);
+  const vega = (volUp.price - volDown.price) / (2 * volBump);
+  const volgaBump = Math.min(VOLGA_BUMP, sigma / 2);
+  const volga = (priceAt({ volatility: sigma + volgaBump }) - 2 * price + priceAt({ volatility: sigma - volgaBump })) /
+    (volgaBump * volgaBump);
+  const vanna = (volUp.delta - volDown.delta) / (2 * volBump);
+  const zomma = (volUp.gamma - volDown.gamma) / (2 * volBump);
+
+  const rho = (priceAt({ riskFreeRate: r + RATE_BUMP }) - priceAt({ riskFreeRate: r - RATE_BUMP })) / (2 * RATE_BUMP);
+  const rhoForeign = (priceAt({ dividendYield: q + RATE_BUMP }) - priceAt({ dividendYield: q - RATE_BUMP })) / (2 * RATE_BUMP);
+
+  return {
+    price,
+    greeks: {
+      delta,
+      gamma,
+      theta,
+      vega,
+      rho,
+      rhoForeign,
+      vanna,
+      volga,
+      charm,
+      speed,
+      color,
+      zomma
+    }
+  };
+}
+
+// The full grid of option values against spot and time to expiry
+export function solveFiniteDifferenceGrid(
+  inputs: PricingInputs,
+  exerciseStyle: ExerciseStyle,
+  settings: FiniteDifferenceSettings = DEFAULT_FINITE_DIFFERENCE_SETTINGS
+): FiniteDifferenceGrid {
+  const geometry = gridGeometry(inputs, settings);
+  const { levels, dt } = rollBack(inputs, exerciseStyle, geometry, settings, true);
+
+  return {
+    spots: Array.from({ length: geometry.steps + 1 }, (_, i) => i * geometry.dS),
+    timesToExpiry: levels.map((_, n) => n * dt),
+    values: levels.map(level => Array.from(level))
+  };
+}
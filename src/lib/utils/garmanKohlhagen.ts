@@ -0,0 +1,51 @@
+import { FXPremiumQuote, Option, PricingInputs, PricingResult } from '@/types/option';
+import { priceBlackScholes } from './blackScholes';
+import { positionUnits } from './dollarGreeks';
+
+// Price a European FX option with the Garman-Kohlhagen formula. inputs.spot is
+// the exchange rate (domestic per unit of foreign), riskFreeRate the domestic
+// rate and dividendYield the foreign rate: the foreign currency earns r_f just
+// as a stock pays a continuous yield. rho is the domestic leg, rhoForeign the
+// foreign leg. The price is in domestic currency per unit of foreign notional.
+export function priceGarmanKohlhagen(inputs: PricingInputs): PricingResult {
+  return priceBlackScholes(inputs);
+}
+
+export const fxPremiumQuoteLabels: Record<FXPremiumQuote, string> = {
+  pips: 'Domestic pips',
+  percentForeign: '% of foreign notional',
+  domestic: 'Domestic amount'
+};
+
+// Currency pairs are quoted foreign then domestic, e.g. EURUSD
+export function foreignCurrency(currencyPair: string): string {
+  return currencyPair.slice(0, 3);
+}
+
+export function domesticCurrency(currencyPair: string): string {
+  return currencyPair.slice(3, 6);
+}
+
+// Currency a position's value and currency Greeks are in: the domestic
+// currency of an FX pair, US dollars for everything else
+export function positionCurrency(option: Option): string {
+  return option.underlyingType === 'fx' && option.currencyPair ? domesticCurrency(option.currencyPair) : 'USD';
+}
+
+// Size of one pip in the domestic currency; yen pairs quote to two decimals
+export function pipSize(currencyPair: string): number {
+  return domesticCurrency(currencyPair) === 'JPY' ? 0.01 : 0.0001;
+}
+
+// Express a per-unit option price (domestic per unit of foreign) in one of
+// the market's premium conventions
+export function quoteFXPremium(price: number, option: Option, quote: FXPremiumQuote): number {
+  switch (quote) {
+    case 'pips':
+      return price / pipSize(option.currencyPair ?? '');
+    case 'percentForeign':
+      return price / option.spotPrice * 100;
+    case 'domestic':
+      return price * positionUnits(option);
+  }
+}
@@ -0,0 +1,116 @@
+import { GammaUnit, GreekConventions, OptionGreeks, SensitivityUnit, ThetaUnit } from '@/types/option';
+
+export const thetaUnitLabels: Record<ThetaUnit, string> = {
+  year: 'per year',
+  calendarDay: 'per calendar day',
+  tradingDay: 'per trading day'
+};
+
+export const sensitivityUnitLabels: Record<SensitivityUnit, string> = {
+  unit: 'per 1.00 (100%)',
+  percent: 'per 1%'
+};
+
+export const gammaUnitLabels: Record<GammaUnit, string> = {
+  point: 'per 1 point',
+  percent: 'per 1% move'
+};
+
+// The pricers' own units: theta per year, vega and rho per 1.00, gamma per point
+export const DEFAULT_GREEK_CONVENTIONS: GreekConventions = {
+  theta: 'year',
+  vega: 'unit',
+  rho: 'unit',
+  gamma: 'point'
+};
+
+const DAYS_PER_YEAR: Record<ThetaUnit, number> = {
+  year: 1,
+  calendarDay: 365,
+  tradingDay: 252
+};
+
+// Factor taking a Greek from the pricers' units to the conventions. Gamma per
+// 1% is the change in delta for a 1% move, ΓS/100, so it depends on the spot.
+// The higher-order Greeks stay in the pricers' units.
+export function greekScale(greek: keyof OptionGreeks, conventions: GreekConventions, spot: number): number {
+  switch (greek) {
+    case 'theta':
+      return 1 / DAYS_PER_YEAR[conventions.theta];
+    case 'vega':
+      return conventions.vega === 'percent' ? 0.01 : 1;
+    case 'rho':
+    case 'rhoForeign':
+      return conventions.rho === 'percent' ? 0.01 : 1;
+    case 'gamma':
+      return conventions.gamma === 'percent' ? Math.abs(spot) / 100 : 1;
+    default:
+      return 1;
+  }
+}
+
+function scaleGreeks(greeks: OptionGreeks, scale: (greek: keyof OptionGreeks) => number): OptionGreeks {
+  const scaled = { ...greeks };
+  (Object.keys(scaled) as (keyof OptionGreeks)[]).forEach(greek => {
+    scaled[greek] *= scale(greek);
+  });
+  return scaled;
+}
+
+export function applyGreekConventions(greeks: OptionGreeks, conventions: GreekConventions, spot: number): OptionGreeks {
+  return scaleGreeks(greeks, greek => greekScale(greek, conventions, spot));
+}
+
+// Back to the pricers' units, for Taylor expansions in raw market moves. Gamma
+// per 1% at a zero or missing spot carries nothing to recover, so it comes back as zero.
+export function removeGreekConventions(greeks: OptionGreeks, conventions: GreekConventions, spot: number): OptionGreeks {
+  return scaleGreeks(greeks, greek => {
+    const scale = greekScale(greek, conventions, spot);
+    return scale !== 0 && Number.isFinite(scale) ? 1 / scale : 0;
+  });
+}
+
+// Short unit for headers and axes, e.g. "/day"; empty for Greeks the conventions leave alone
+export function greekUnitSuffix(greek: keyof OptionGreeks, conventions: GreekConventions): string {
+  switch (greek) {
+    case 'theta':
+      return { year: '/yr', calendarDay: '/day', tradingDay: '/trading day' }[conventions.theta];
+    case 'vega':
+      return conventions.vega === 'percent' ? '/1%' : '/1.00';
+    case 'rho':
+    case 'rhoForeign':
+      return conventions.rho === 'percent' ? '/1%' : '/1.00';
+    case 'gamma':
+      return conventions.gamma === 'percent' ? '/1%' : '/pt';
+    default:
+      return '';
+  }
+}
+
+export function greekLabelWithUnit(label: string, greek: keyof OptionGreeks, conventions: GreekConventions): string {
+  const suffix = greekUnitSuffix(greek, conventions);
+  return suffix ? `${label} (${suffix})` : label;
+}
+
+// Worked examples for the Greeks whose units follow the conventions
+export function greekInterpretations(conventions: GreekConventions): Partial<Record<keyof OptionGreeks, string>> {
+  const vegaExample = conventions.vega === 'percent'
+    ? 'A vega of 0.2 means a 1 point rise in vol changes the option value by $0.20.'
+    : 'A vega of 20 means a rise in vol of 1.00 (100 points) would change the option value by $20, so a 1 point rise changes it by about $0.20.';
+  const rhoExample = conventions.rho === 'percent'
+    ? 'A rho of 0.1 means a 1% rate change impacts the option value by $0.10.'
+    : 'A rho of 10 means a rate change of 1.00 (100%) would impact the option value by $10, so a 1% change impacts it by about $0.10.';
+  const rhoForeignExample = conventions.rho === 'percent'
+    ? 'A foreign rho of -0.2 means a 1% rise in the foreign rate lowers the option value by $0.20.'
+    : 'A foreign rho of -20 means a 1% rise in the foreign rate lowers the option value by about $0.20.';
+
+  return {
+    gamma: conventions.gamma === 'percent'
+      ? 'A gamma of 0.05 means delta rises by 0.05 for a 1% rise in the underlying.'
+      : 'A gamma of 0.05 means delta rises by 0.05 for a $1 rise in the underlying.',
+    theta: `A theta of -0.05 means the option loses $0.05 in value ${thetaUnitLabels[conventions.theta]}, all else equal.`,
+    vega: vegaExample,
+    rho: rhoExample,
+    rhoForeign: rhoForeignExample
+  };
+}
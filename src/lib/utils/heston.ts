@@ -0,0 +1,152 @@
+import { HestonParameters, PricingInputs, PricingResult } from '@/types/option';
+import { calculateBumpedGreeks } from './bumpGreeks';
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const complex = (re: number, im: number = 0): Complex => ({ re, im });
+const add = (a: Complex, b: Complex): Complex => complex(a.re + b.re, a.im + b.im);
+const sub = (a: Complex, b: Complex): Complex => complex(a.re - b.re, a.im - b.im);
+const mul = (a: Complex, b: Complex): Complex => complex(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+const scale = (a: Complex, k: number): Complex => complex(a.re * k, a.im * k);
+
+function div(a: Complex, b: Complex): Complex {
+  const denominator = b.re * b.re + b.im * b.im;
+  return complex((a.re * b.re + a.im * b.im) / denominator, (a.im * b.re - a.re * b.im) / denominator);
+}
+
+function exp(a: Complex): Complex {
+  const magnitude = Math.exp(a.re);
+  return complex(magnitude * Math.cos(a.im), magnitude * Math.sin(a.im));
+}
+
+function log(a: Complex): Complex {
+  return complex(Math.log(Math.hypot(a.re, a.im)), Math.atan2(a.im, a.re));
+}
+
+// ln(1 + a), by its series for small a where 1 + a would lose digits
+function log1p(a: Complex): Complex {
+  if (Math.hypot(a.re, a.im) > 1e-5) return log(add(complex(1), a));
+  const squared = mul(a, a);
+  return add(sub(a, scale(squared, 0.5)), scale(mul(squared, a), 1 / 3));
+}
+
+// Principal square root
+function sqrt(a: Complex): Complex {
+  const magnitude = Math.hypot(a.re, a.im);
+  const re = Math.sqrt((magnitude + a.re) / 2);
+  const im = Math.sqrt(Math.max((magnitude - a.re) / 2, 0));
+  return complex(re, a.im < 0 ? -im : im);
+}
+
+// 8-point Gauss-Legendre nodes and weights on [-1, 1]
+const GAUSS_NODES = [
+  -0.9602898564975363, -0.7966664774136267, -0.5255324099163290, -0.1834346424956498,
+  0.1834346424956498, 0.5255324099163290, 0.7966664774136267, 0.9602898564975363
+];
+const GAUSS_WEIGHTS = [
+  0.1012285362903763, 0.2223810344533745, 0.3137066458778873, 0.3626837833783620,
+  0.3626837833783620, 0.3137066458778873, 0.2223810344533745, 0.1012285362903763
+];
+
+// The integrand is integrated panel by panel until a panel adds nothing.
+// Panels start narrow to resolve the 1/(u² + 1/4) peak at the origin and
+// double in width up to a cap.
+const FIRST_PANEL_WIDTH = 0.5;
+const MAX_PANEL_WIDTH = 8;
+const MIN_UPPER_LIMIT = 4;
+const MAX_UPPER_LIMIT = 2000;
+const PANEL_TOLERANCE = 1e-12;
+
+// Keeps ξ² away from zero in the characteristic function
+const MIN_XI = 1e-6;
+
+// Characteristic function of ln(S_T / F) under Heston, in the "little trap"
+// form (Albrecher et al.) that stays on the right branch of the logarithm
+function characteristicFunction(u: Complex, T: number, params: HestonParameters): Complex {
+  const { kappa, theta, rho, v0 } = params;
+  const xi = Math.max(params.xi, MIN_XI);
+  const xiSquared = xi * xi;
+  const i = complex(0, 1);
+
+  const alpha = sub(scale(mul(u, u), -0.5), scale(mul(i, u), 0.5));
+  const beta = sub(complex(kappa), scale(mul(i, u), rho * xi));
+  const d = sqrt(sub(mul(beta, beta), scale(alpha, 2 * xiSquared)));
+
+  // r₋ = (β - d)/ξ², written as 2α/(β + d) to avoid cancellation when ξ is small
+  const rMinus = div(scale(alpha, 2), add(beta, d));
+  const rPlus = scale(add(beta, d), 1 / xiSquared);
+  const g = div(rMinus, rPlus);
+  const decay = exp(scale(d, -T));
+  const one = complex(1);
+
+  // ln((1 - g·e^(-dT)) / (1 - g)) = ln(1 + g(1 - e^(-dT))/(1 - g)), which is O(ξ²)
+  const D = mul(rMinus, div(sub(one, decay), sub(one, mul(g, decay))));
+  const logTerm = log1p(div(mul(g, sub(one, decay)), sub(one, g)));
+  const C = scale(sub(scale(rMinus, T), scale(logTerm, 2 / xiSquared)), kappa);
+
+  return exp(add(scale(C, theta), scale(D, v0)));
+}
+
+// European call and put under Heston by Lewis's single-integral formula:
+// C = e^(-rT)·[F - √(FK)/π ∫₀^∞ Re(e^(-iuk)·φ(u - i/2)) / (u² + 1/4) du], k = ln(K/F)
+export function calculateHestonPrice(inputs: PricingInputs, params: HestonParameters): number {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, type } = inputs;
+  const forward = S * Math.exp((r - q) * T);
+  const discount = Math.exp(-r * T);
+  const k = Math.log(K / forward);
+
+  const integrand = (u: number) => {
+    const phi = characteristicFunction(complex(u, -0.5), T, params);
+    const rotated = mul(exp(complex(0, -u * k)), phi);
+    return rotated.re / (u * u + 0.25);
+  };
+
+  let integral = 0;
+  let lower = 0;
+  let width = FIRST_PANEL_WIDTH;
+  while (lower < MAX_UPPER_LIMIT) {
+    const mid = lower + width / 2;
+    let contribution = 0;
+    let magnitude = 0;
+    GAUSS_NODES.forEach((node, j) => {
+      const value = GAUSS_WEIGHTS[j] * integrand(mid + node * width / 2);
+      contribution += value;
+      magnitude += Math.abs(value);
+    });
+    integral += contribution * width / 2;
+    lower += width;
+    // Stop on the size of the integrand, not the panel sum, which can cancel
+    if (lower >= MIN_UPPER_LIMIT && magnitude * width / 2 < PANEL_TOLERANCE) break;
+    width = Math.min(width * 2, MAX_PANEL_WIDTH);
+  }
+
+  const call = discount * (forward - Math.sqrt(forward * K) * integral / Math.PI);
+  return type === 'Call' ? call : call - discount * (forward - K);
+}
+
+// Price a European call or put under Heston. Greeks are finite differences;
+// the vega family treats a change in the position's volatility as a parallel
+// move in the level of volatility, scaling v0 and θ together.
+export function priceHeston(inputs: PricingInputs, params: HestonParameters): PricingResult {
+  const price = (pricingInputs: PricingInputs) => {
+    const varianceScale = (pricingInputs.volatility / inputs.volatility) ** 2;
+    return calculateHestonPrice(pricingInputs, {
+      ...params,
+      theta: params.theta * varianceScale,
+      v0: params.v0 * varianceScale
+    });
+  };
+
+  return {
+    price: price(inputs),
+    greeks: calculateBumpedGreeks(price, inputs)
+  };
+}
+
+// Whether 2κθ > ξ², so the variance process never reaches zero
+export function satisfiesFellerCondition(params: HestonParameters): boolean {
+  return 2 * params.kappa * params.theta > params.xi * params.xi;
+}
@@ -0,0 +1,126 @@
+import { CalibrationMarket, HestonParameters, PricingInputs, VolSurfaceData } from '@/types/option';
+import { priceBlackScholes } from './blackScholes';
+import { calculateHestonPrice, satisfiesFellerCondition } from './heston';
+import { solveImpliedVolatility } from './impliedVolatility';
+import { levenbergMarquardt } from './levenbergMarquardt';
+
+export interface HestonFitPoint {
+  strike: number;
+  maturity: number;
+  marketVol: number;
+  modelVol: number;       // Heston price implied back to a Black-Scholes volatility
+  error: number;          // modelVol - marketVol
+}
+
+export interface HestonCalibrationResult {
+  parameters: HestonParameters;
+  points: HestonFitPoint[];
+  rmse: number;           // Root-mean-square implied volatility error
+  maxError: number;       // Largest absolute implied volatility error
+  iterations: number;
+  fellerSatisfied: boolean;
+}
+
+const MIN_VEGA = 1e-4;
+const MAX_CORRELATION = 0.999;
+
+// The optimiser works on unconstrained coordinates: logs of the positive
+// parameters and the inverse hyperbolic tangent of ρ
+function toParameters(x: number[]): HestonParameters {
+  return {
+    kappa: Math.exp(x[0]),
+    theta: Math.exp(x[1]),
+    xi: Math.exp(x[2]),
+    rho: Math.max(-MAX_CORRELATION, Math.min(MAX_CORRELATION, Math.tanh(x[3]))),
+    v0: Math.exp(x[4])
+  };
+}
+
+function fromParameters(params: HestonParameters): number[] {
+  const rho = Math.max(-MAX_CORRELATION, Math.min(MAX_CORRELATION, params.rho));
+  return [Math.log(params.kappa), Math.log(params.theta), Math.log(params.xi), Math.atanh(rho), Math.log(params.v0)];
+}
+
+// Starting point: short-dated ATM variance for v0, long-dated for θ
+function initialGuess(quotes: { inputs: PricingInputs; marketVol: number }[], spot: number): HestonParameters {
+  const atmVariance = (maturity: number) => {
+    const atMaturity = quotes.filter(quote => quote.inputs.timeToExpiry === maturity);
+    const closest = atMaturity.reduce((best, quote) =>
+      Math.abs(quote.inputs.strike - spot) < Math.abs(best.inputs.strike - spot) ? quote : best
+    );
+    return closest.marketVol * closest.marketVol;
+  };
+  const maturities = quotes.map(quote => quote.inputs.timeToExpiry);
+
+  return {
+    kappa: 2,
+    theta: atmVariance(Math.max(...maturities)),
+    xi: 0.5,
+    rho: -0.5,
+    v0: atmVariance(Math.min(...maturities))
+  };
+}
+
+// Fit κ, θ, ξ, ρ and v0 to an implied volatility grid by Levenberg-Marquardt.
+// Each quote is priced as the out-of-the-money option, and price errors are
+// divided by Black-Scholes vega so the fit is roughly in volatility terms.
+// Grid points without a volatility (0 or missing) are skipped.
+export function calibrateHeston(
+  surface: VolSurfaceData,
+  market: CalibrationMarket,
+  initial?: HestonParameters
+): HestonCalibrationResult {
+  const { spot, riskFreeRate, dividendYield } = market;
+
+  const quotes = surface.maturities.flatMap((maturity, j) =>
+    surface.strikes.flatMap((strike, i) => {
+      const marketVol = surface.volatilities[j]?.[i];
+      if (!(marketVol > 0) || !(maturity > 0) || !(strike > 0)) return [];
+
+      const forward = spot * Math.exp((riskFreeRate - dividendYield) * maturity);
+      const inputs: PricingInputs = {
+        type: strike >= forward ? 'Call' : 'Put',
+        spot,
+        strike,
+        timeToExpiry: maturity,
+        volatility: marketVol,
+        riskFreeRate,
+        dividendYield
+      };
+      const { price, greeks } = priceBlackScholes(inputs);
+      return [{ inputs, marketVol, marketPrice: price, vega: Math.max(greeks.vega, MIN_VEGA) }];
+    })
+  );
+
+  if (quotes.length < 5) {
+    throw new Error('Heston calibration needs at least 5 volatility quotes');
+  }
+
+  const residuals = (x: number[]) => {
+    const params = toParameters(x);
+    return quotes.map(quote => (calculateHestonPrice(quote.inputs, params) - quote.marketPrice) / quote.vega);
+  };
+  const fit = levenbergMarquardt(residuals, fromParameters(initial ?? initialGuess(quotes, spot)));
+
+  const parameters = toParameters(fit.x);
+  const points = quotes.map(({ inputs, marketVol }) => {
+    const modelPrice = calculateHestonPrice(inputs, parameters);
+    const modelVol = solveImpliedVolatility(modelPrice, inputs).volatility;
+    return {
+      strike: inputs.strike,
+      maturity: inputs.timeToExpiry,
+      marketVol,
+      modelVol,
+      error: modelVol - marketVol
+    };
+  });
+
+  return {
+    parameters,
+    points,
+    rmse: Math.sqrt(points.reduce((sum, point) => sum + point.error * point.error, 0) / points.length),
+    maxError: Math.max(...points.map(point => Math.abs(point.error))),
+    iterations: fit.iterations,
+    fellerSatisfied: satisfiesFellerCondition(parameters)
+  };
+}
@@ -0,0 +1,285 @@
+import { ExerciseStyle, Option, PricingInputs, PricingResult, PricingSettings } from '@/types/option';
+import { optionToPricingInputs, priceBlackScholes } from './blackScholes';
+import { DEFAULT_PRICING_SETTINGS, priceOption } from './pricingEngine';
+import { priceBachelier, solveNormalVolatility } from './bachelier';
+
+// Search bracket for σ
+export const MIN_IMPLIED_VOL = 1e-4;
+export const MAX_IMPLIED_VOL = 5;
+
+const PRICE_TOLERANCE = 1e-12;
+const VOL_TOLERANCE = 1e-10;
+const MAX_NEWTON_ITERATIONS = 50;
+const MAX_BRENT_ITERATIONS = 200;
+const MIN_VEGA = 1e-8;
+
+export type ImpliedVolFailureReason = 'belowLowerBound' | 'aboveUpperBound' | 'noTimeValue' | 'noConvergence';
+
+export interface ImpliedVolResult {
+  volatility: number;
+  converged: boolean;
+  method: 'newton' | 'brent';
+  iterations: number;
+  failureReason?: ImpliedVolFailureReason;
+  message?: string;
+}
+
+// Pricer used by the solver; must return a vega for the Newton step
+export type ImpliedVolPricer = (inputs: PricingInputs) => PricingResult;
+
+// No-arbitrage price bounds for an option, whatever the volatility
+export function priceBounds(inputs: PricingInputs, exerciseStyle: ExerciseStyle = 'European'): [number, number] {
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q, type } = inputs;
+  const forwardSpot = S * Math.exp(-q * T);
+  const discountedStrike = K * Math.exp(-r * T);
+  const isAmerican = exerciseStyle === 'American';
+
+  if (type === 'Call') {
+    const lower = Math.max(0, forwardSpot - discountedStrike, isAmerican ? S - K : 0);
+    return [lower, isAmerican ? S : forwardSpot];
+  }
+
+  const lower = Math.max(0, discountedStrike - forwardSpot, isAmerican ? K - S : 0);
+  return [lower, isAmerican ? K : discountedStrike];
+}
+
+function formatPrice(value: number): string {
+  return value.toFixed(4);
+}
+
+// Brent's method on f(σ) = model price - market price over the σ bracket
+function solveBrent(
+  marketPrice: number,
+  inputs: PricingInputs,
+  pricer: ImpliedVolPricer
+): ImpliedVolResult {
+  const f = (sigma: number) => pricer({ ...inputs, volatility: sigma }).price - marketPrice;
+  const priceTolerance = PRICE_TOLERANCE * Math.max(1, marketPrice);
+
+  let a = MIN_IMPLIED_VOL;
+  let b = MAX_IMPLIED_VOL;
+  let fa = f(a);
+  let fb = f(b);
+
+  if (fa > 0) {
+    return {
+      volatility: a,
+      converged: false,
+      method: 'brent',
+      iterations: 0,
+      failureReason: 'belowLowerBound',
+      message: `Market price ${formatPrice(marketPrice)} is below the model price at the minimum volatility`
+    };
+  }
+  if (fb < 0) {
+    return {
+      volatility: b,
+      converged: false,
+      method: 'brent',
+      iterations: 0,
+      failureReason: 'aboveUpperBound',
+      message: `Market price ${formatPrice(marketPrice)} is above the model price at ${MAX_IMPLIED_VOL * 100}% volatility`
+    };
+  }
+
+  let c = a;
+  let fc = fa;
+  let d = b - a;
+  let e = d;
+
+  for (let i = 1; i <= MAX_BRENT_ITERATIONS; i++) {
+    if (fb * fc > 0) {
+      c = a;
+      fc = fa;
+      d = b - a;
+      e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b; b = c; c = a;
+      fa = fb; fb = fc; fc = fa;
+    }
+
+    const tolerance = 2 * Number.EPSILON * Math.abs(b) + VOL_TOLERANCE / 2;
+    const midpoint = (c - b) / 2;
+    if (Math.abs(midpoint) <= tolerance || Math.abs(fb) < priceTolerance) {
+      return { volatility: b, converged: true, method: 'brent', iterations: i };
+    }
+
+    if (Math.abs(e) >= tolerance && Math.abs(fa) > Math.abs(fb)) {
+      // Inverse quadratic interpolation, or secant when only two points are distinct
+      const s = fb / fa;
+      let p: number;
+      let q: number;
+      if (a === c) {
+        p = 2 * midpoint * s;
+        q = 1 - s;
+      } else {
+        const qa = fa / fc;
+        const r = fb / fc;
+        p = s * (2 * midpoint * qa * (qa - r) - (b - a) * (r - 1));
+        q = (qa - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q;
+      p = Math.abs(p);
+
+      if (2 * p < Math.min(3 * midpoint * q - Math.abs(tolerance * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = midpoint;
+        e = d;
+      }
+    } else {
+      d = midpoint;
+      e = d;
+    }
+
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > tolerance ? d : (midpoint > 0 ? tolerance : -tolerance);
+    fb = f(b);
+  }
+
+  return {
+    volatility: b,
+    converged: false,
+    method: 'brent',
+    iterations: MAX_BRENT_ITERATIONS,
+    failureReason: 'noConvergence',
+    message: `Solver did not converge after ${MAX_BRENT_ITERATIONS} iterations`
+  };
+}
+
+// Back out the volatility that reproduces a market price. Newton-Raphson on
+// vega is tried first; Brent's method takes over when Newton stalls (tiny vega)
+// or leaves the search bracket.
+export function solveImpliedVolatility(
+  marketPrice: number,
+  inputs: PricingInputs,
+  exerciseStyle: ExerciseStyle = 'European',
+  pricer: ImpliedVolPricer = priceBlackScholes
+): ImpliedVolResult {
+  const [lower, upper] = priceBounds(inputs, exerciseStyle);
+
+  if (marketPrice < lower) {
+    return {
+      volatility: MIN_IMPLIED_VOL,
+      converged: false,
+      method: 'newton',
+      iterations: 0,
+      failureReason: 'belowLowerBound',
+      message: `Market price ${formatPrice(marketPrice)} is below the no-arbitrage lower bound ${formatPrice(lower)}`
+    };
+  }
+  if (marketPrice >= upper) {
+    return {
+      volatility: MAX_IMPLIED_VOL,
+      converged: false,
+      method: 'newton',
+      iterations: 0,
+      failureReason: 'aboveUpperBound',
+      message: `Market price ${formatPrice(marketPrice)} is at or above the no-arbitrage upper bound ${formatPrice(upper)}`
+    };
+  }
+
+  // A price sitting on the lower bound has no time value left to explain
+  const priceTolerance = PRICE_TOLERANCE * Math.max(1, marketPrice);
+  if (marketPrice - lower < 1e-8 * Math.max(1, marketPrice)) {
+    return {
+      volatility: MIN_IMPLIED_VOL,
+      converged: false,
+      method: 'newton',
+      iterations: 0,
+      failureReason: 'noTimeValue',
+      message: `Market price ${formatPrice(marketPrice)} has no time value over the lower bound ${formatPrice(lower)}`
+    };
+  }
+
+  // Manaster-Koehler starting point, kept inside a sensible range
+  const { spot: S, strike: K, timeToExpiry: T, riskFreeRate: r, dividendYield: q } = inputs;
+  let sigma = Math.sqrt(2 * Math.abs(Math.log(S / K) + (r - q) * T) / T);
+  sigma = Math.min(Math.max(sigma, 0.1), 2);
+
+  for (let i = 1; i <= MAX_NEWTON_ITERATIONS; i++) {
+    const { price, greeks } = pricer({ ...inputs, volatility: sigma });
+    const diff = price - marketPrice;
+    if (Math.abs(diff) < priceTolerance) {
+      return { volatility: sigma, converged: true, method: 'newton', iterations: i };
+    }
+    if (!(greeks.vega > MIN_VEGA)) break;
+
+    const step = diff / greeks.vega;
+    sigma -= step;
+    if (!(sigma > MIN_IMPLIED_VOL && sigma < MAX_IMPLIED_VOL)) break;
+    if (Math.abs(step) < VOL_TOLERANCE) {
+      return { volatility: sigma, converged: true, method: 'newton', iterations: i };
+    }
+  }
+
+  return solveBrent(marketPrice, inputs, pricer);
+}
+
+// Imply a position's volatility from its market price under the portfolio
+// pricing model, so American positions are inverted with early exercise
+// included. Implied volatility is a flat volatility, so the solve ignores a
+// stochastic volatility model, whose prices don't depend on σ.
+// Normal-volatility positions are inverted under Bachelier.
+export function solveOptionImpliedVolatility(
+  option: Option,
+  marketPrice: number,
+  settings: PricingSettings = DEFAULT_PRICING_SETTINGS
+): ImpliedVolResult {
+  if (option.volatilityType === 'normal') {
+    return solveNormalVolatility(marketPrice, optionToPricingInputs(option));
+  }
+  const flatVolatility: PricingSettings = { ...settings, volatilityModel: 'blackScholes' };
+  return solveImpliedVolatility(
+    marketPrice,
+    optionToPricingInputs(option),
+    option.exerciseStyle ?? 'European',
+    inputs => priceOption({ ...option, volatility: inputs.volatility }, flatVolatility)
+  );
+}
+
+// The settings an implied volatility depends on: only the American model and its grid
+export type ImpliedVolatilityModel = Pick<PricingSettings, 'model' | 'treeSteps' | 'finiteDifference'>;
+
+// Positions with a market price take the volatility it implies under the
+// current model, once they are dated and marked to the curve, so the
+// flat-volatility model price matches the market price. The implied
+// volatility takes precedence over a surface's. When the solve fails the
+// position keeps any volatility it was given (or the solver's bracket bound)
+// and carries the failure reason.
+export function markToImpliedVolatility(options: Option[], model: ImpliedVolatilityModel): Option[] {
+  const settings: PricingSettings = { ...DEFAULT_PRICING_SETTINGS, ...model };
+  return options.map(option => {
+    if (option.marketPrice === undefined) return option;
+
+    const result = solveOptionImpliedVolatility(option, option.marketPrice, settings);
+    if (result.converged) {
+      return { ...option, volatility: result.volatility, impliedVolError: undefined };
+    }
+
+    return {
+      ...option,
+      volatility: option.volatility ?? result.volatility,
+      impliedVolError: result.message
+    };
+  });
+}
+
+// Normal volatility giving the same European price as inputs.volatility does
+// under Black-Scholes
+export function lognormalToNormalVolatility(inputs: PricingInputs): ImpliedVolResult {
+  return solveNormalVolatility(priceBlackScholes(inputs).price, inputs);
+}
+
+// Lognormal volatility giving the same European price as the normal
+// volatility in inputs.volatility does under Bachelier. Lognormal volatility
+// only exists for a positive spot and strike.
+export function normalToLognormalVolatility(inputs: PricingInputs): ImpliedVolResult {
+  if (!(inputs.spot > 0 && inputs.strike > 0)) {
+    throw new Error('Lognormal volatility needs a positive spot and strike');
+  }
+  return solveImpliedVolatility(priceBachelier(inputs).price, inputs);
+}
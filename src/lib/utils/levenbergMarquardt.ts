@@ -0,0 +1,93 @@
+// Nonlinear least squares for model calibration: minimise Σ rᵢ(x)² over x.
+
+export interface LeastSquaresResult {
+  x: number[];
+  cost: number;           // Sum of squared residuals at x
+  iterations: number;
+}
+
+const DEFAULT_MAX_ITERATIONS = 100;
+const COST_TOLERANCE = 1e-12;
+const JACOBIAN_STEP = 1e-5;
+const MAX_DAMPING = 1e10;
+
+// Solve A·x = b by Gaussian elimination with partial pivoting
+function solveLinear(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) pivot = row;
+    }
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = M[row][col] / M[col][col];
+      for (let k = col; k <= n; k++) M[row][k] -= factor * M[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = M[row][n];
+    for (let k = row + 1; k < n; k++) sum -= M[row][k] * x[k];
+    x[row] = sum / M[row][row];
+  }
+  return x;
+}
+
+const sumOfSquares = (r: number[]) => r.reduce((sum, value) => sum + value * value, 0);
+
+// Levenberg-Marquardt with a forward-difference Jacobian and Marquardt's
+// diagonal scaling. Parameters should be unconstrained; map bounded ones
+// through exp or tanh inside `residuals`.
+export function levenbergMarquardt(
+  residuals: (x: number[]) => number[],
+  initial: number[],
+  maxIterations: number = DEFAULT_MAX_ITERATIONS
+): LeastSquaresResult {
+  let x = [...initial];
+  let r = residuals(x);
+  let cost = sumOfSquares(r);
+  let lambda = 1e-3;
+  let iterations = 0;
+
+  for (; iterations < maxIterations; iterations++) {
+    const jacobian = x.map((_, k) => {
+      const bumped = [...x];
+      bumped[k] += JACOBIAN_STEP;
+      return residuals(bumped).map((value, j) => (value - r[j]) / JACOBIAN_STEP);
+    });
+
+    const JtJ = x.map((_, a) => x.map((_, b) =>
+      jacobian[a].reduce((sum, value, j) => sum + value * jacobian[b][j], 0)
+    ));
+    const Jtr = x.map((_, a) => jacobian[a].reduce((sum, value, j) => sum + value * r[j], 0));
+
+    // Raise the damping until a step lowers the cost
+    let improved = false;
+    while (lambda < MAX_DAMPING) {
+      const damped = JtJ.map((row, a) => row.map((value, b) => (a === b ? value * (1 + lambda) : value)));
+      const step = solveLinear(damped, Jtr.map(value => -value));
+      const candidate = x.map((value, k) => value + step[k]);
+      const candidateResiduals = residuals(candidate);
+      const candidateCost = sumOfSquares(candidateResiduals);
+
+      if (Number.isFinite(candidateCost) && candidateCost < cost) {
+        const relativeDecrease = (cost - candidateCost) / Math.max(cost, COST_TOLERANCE);
+        x = candidate;
+        r = candidateResiduals;
+        cost = candidateCost;
+        lambda = Math.max(lambda / 3, 1e-12);
+        improved = relativeDecrease > COST_TOLERANCE;
+        break;
+      }
+      lambda *= 4;
+    }
+    if (!improved) break;
+  }
+
+  return { x, cost, iterations };
+}
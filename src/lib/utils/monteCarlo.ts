@@ -0,0 +1,286 @@
+import { PricingInputs } from '@/types/option';
+import { isCallType } from './digital';
+import { createNormalSampler, createRandom } from './random';
+
+export interface MonteCarloSettings {
+  paths: number;
+  seed: number;
+  antithetic: boolean;      // Pair every path with its mirror image
+  controlVariate: boolean;  // Regress out a control with known expectation
+}
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  paths: 20000,
+  seed: 12345,
+  antithetic: true,
+  controlVariate: true
+};
+
+// A payoff paid at expiry on the spot observed at each of `times`
+export interface PathProduct {
+  times: number[];          // Observation times in years from today, within [0, T]
+  payoff: (spots: number[]) => number;
+  // ∂payoff/∂spot at each observation. Products that supply it get pathwise
+  // Greeks; discontinuous payoffs leave it out and get likelihood-ratio Greeks.
+  gradient?: (spots: number[]) => number[];
+  // Another payoff at expiry whose present value is known in closed form.
+  // Defaults to the terminal spot, worth S·e^(-qT).
+  control?: {
+    payoff: (spots: number[], terminalSpot: number) => number;
+    presentValue: number;
+  };
+}
+
+export type GreekEstimator = 'pathwise' | 'likelihoodRatio' | 'pathwiseLikelihoodRatio';
+
+export interface MonteCarloEstimate {
+  value: number;
+  standardError: number;
+}
+
+export interface MonteCarloResult {
+  price: MonteCarloEstimate;
+  confidenceInterval: [number, number]; // 95%
+  greeks: {
+    delta: MonteCarloEstimate;
+    gamma: MonteCarloEstimate;
+    vega: MonteCarloEstimate;
+    rho: MonteCarloEstimate;            // With the yield q held fixed
+  };
+  estimators: {
+    delta: GreekEstimator;
+    gamma: GreekEstimator;
+    vega: GreekEstimator;
+    rho: GreekEstimator;
+  };
+  paths: number;
+  varianceReduction: number;            // Plain per-path variance over the reported estimator's
+}
+
+const Z_95 = 1.959963984540054;
+
+// Running mean and variance of one estimator
+class SampleStats {
+  private count = 0;
+  private sum = 0;
+  private sumSquares = 0;
+
+  add(value: number) {
+    this.count++;
+    this.sum += value;
+    this.sumSquares += value * value;
+  }
+
+  get mean(): number {
+    return this.sum / this.count;
+  }
+
+  get variance(): number {
+    return Math.max(this.sumSquares / this.count - this.mean * this.mean, 0) * this.count / Math.max(this.count - 1, 1);
+  }
+
+  estimate(): MonteCarloEstimate {
+    return { value: this.mean, standardError: Math.sqrt(this.variance / this.count) };
+  }
+}
+
+// Mean of the samples, less β·(control - its known value) when the control is
+// used, with β estimated by regression on the same samples
+export function controlledEstimate(
+  values: number[],
+  controls: number[],
+  presentValue: number,
+  useControl: boolean
+): MonteCarloEstimate {
+  const count = values.length;
+  const meanValue = values.reduce((sum, v) => sum + v, 0) / count;
+  const meanControl = controls.reduce((sum, c) => sum + c, 0) / count;
+  let covariance = 0;
+  let controlVariance = 0;
+  values.forEach((v, n) => {
+    covariance += (v - meanValue) * (controls[n] - meanControl);
+    controlVariance += (controls[n] - meanControl) ** 2;
+  });
+  const beta = useControl && controlVariance > 0 ? covariance / controlVariance : 0;
+
+  const stats = new SampleStats();
+  values.forEach((v, n) => stats.add(v - beta * (controls[n] - presentValue)));
+  return stats.estimate();
+}
+
+// 95% confidence interval around an estimate
+export function confidenceInterval(estimate: MonteCarloEstimate): [number, number] {
+  return [estimate.value - Z_95 * estimate.standardError, estimate.value + Z_95 * estimate.standardError];
+}
+
+// Simulate a product under Black-Scholes dynamics (GBM with yield q), stepping
+// exactly between observation dates. The price can use antithetic pairs and a
+// control variate; Greeks are pathwise when the product has a gradient and
+// likelihood-ratio otherwise, and use antithetic pairs but not the control.
+export function simulateMonteCarlo(
+  inputs: PricingInputs,
+  product: PathProduct,
+  settings: MonteCarloSettings = DEFAULT_MONTE_CARLO_SETTINGS
+): MonteCarloResult {
+  const { spot: S, timeToExpiry: T, riskFreeRate: r, dividendYield: q, volatility: sigma } = inputs;
+  const normal = createNormalSampler(createRandom(settings.seed));
+  const discount = Math.exp(-r * T);
+  const drift = r - q - sigma * sigma / 2;
+
+  // Positive simulation dates, always ending at expiry; observations at 0 are the spot itself
+  const stepTimes = Array.from(new Set([...product.times.filter(t => t > 0), T])).sort((a, b) => a - b);
+  const stepIndex = product.times.map(t => (t > 0 ? stepTimes.indexOf(t) : -1));
+  const stepSizes = stepTimes.map((t, i) => t - (i === 0 ? 0 : stepTimes[i - 1]));
+  const sqrtSteps = stepSizes.map(Math.sqrt);
+
+  const pathwise = product.gradient !== undefined;
+  const control = product.control ?? {
+    payoff: (_: number[], terminalSpot: number) => terminalSpot,
+    presentValue: S * Math.exp(-q * T)
+  };
+
+  // Discounted payoff, control and Greek estimators along one set of shocks
+  const samplePath = (shocks: number[]) => {
+    let logSpot = Math.log(S);
+    let brownian = 0;
+    const brownianPath: number[] = [];
+    const path = stepTimes.map((_, k) => {
+      brownian += sqrtSteps[k] * shocks[k];
+      brownianPath.push(brownian);
+      logSpot += drift * stepSizes[k] + sigma * sqrtSteps[k] * shocks[k];
+      return Math.exp(logSpot);
+    });
+    const spots = stepIndex.map(k => (k < 0 ? S : path[k]));
+    const value = discount * product.payoff(spots);
+
+    // Likelihood-ratio weights from the first step's density (spot) and every step's (σ, r)
+    const firstWeight = shocks[0] / (S * sigma * sqrtSteps[0]);
+    const gammaWeight = (shocks[0] * shocks[0] - 1 - shocks[0] * sigma * sqrtSteps[0]) /
+      (S * S * sigma * sigma * stepSizes[0]);
+    let vegaWeight = 0;
+    let rhoWeight = 0;
+    shocks.forEach((z, k) => {
+      vegaWeight += (z * z - 1) / sigma - z * sqrtSteps[k];
+      rhoWeight += z * sqrtSteps[k] / sigma;
+    });
+
+    let delta: number;
+    let gamma: number;
+    let vega: number;
+    let rho: number;
+    if (pathwise) {
+      // S_t moves by S_t/S with spot, S_t·(W_t - σt) with σ and S_t·t with r
+      const gradient = product.gradient!(spots);
+      delta = 0;
+      vega = 0;
+      rho = -T * value;
+      product.times.forEach((t, i) => {
+        const k = stepIndex[i];
+        const spot = spots[i];
+        delta += discount * gradient[i] * spot / S;
+        vega += discount * gradient[i] * spot * (k < 0 ? 0 : brownianPath[k] - sigma * t);
+        rho += discount * gradient[i] * spot * Math.max(t, 0);
+      });
+      // Pathwise delta differentiated once more by likelihood ratio
+      gamma = delta * (firstWeight - 1 / S);
+    } else {
+      delta = value * firstWeight;
+      gamma = value * gammaWeight;
+      vega = value * vegaWeight;
+      rho = value * (rhoWeight - T);
+    }
+
+    return {
+      value,
+      control: discount * control.payoff(spots, path[path.length - 1]),
+      delta,
+      gamma,
+      vega,
+      rho
+    };
+  };
+
+  const samples = settings.antithetic ? Math.max(1, Math.floor(settings.paths / 2)) : Math.max(1, settings.paths);
+  const values: number[] = new Array(samples);
+  const controls: number[] = new Array(samples);
+  const stats = {
+    delta: new SampleStats(),
+    gamma: new SampleStats(),
+    vega: new SampleStats(),
+    rho: new SampleStats()
+  };
+  // Single-path payoffs, to measure what variance reduction bought
+  const plain = new SampleStats();
+
+  for (let n = 0; n < samples; n++) {
+    const shocks = stepTimes.map(() => normal());
+    let sample = samplePath(shocks);
+    plain.add(sample.value);
+    if (settings.antithetic) {
+      const mirror = samplePath(shocks.map(z => -z));
+      plain.add(mirror.value);
+      sample = {
+        value: (sample.value + mirror.value) / 2,
+        control: (sample.control + mirror.control) / 2,
+        delta: (sample.delta + mirror.delta) / 2,
+        gamma: (sample.gamma + mirror.gamma) / 2,
+        vega: (sample.vega + mirror.vega) / 2,
+        rho: (sample.rho + mirror.rho) / 2
+      };
+    }
+    values[n] = sample.value;
+    controls[n] = sample.control;
+    stats.delta.add(sample.delta);
+    stats.gamma.add(sample.gamma);
+    stats.vega.add(sample.vega);
+    stats.rho.add(sample.rho);
+  }
+
+  const estimate = controlledEstimate(values, controls, control.presentValue, settings.controlVariate);
+
+  // Compare per path: an antithetic sample costs two
+  const pathsUsed = settings.antithetic ? samples * 2 : samples;
+  const reportedVariancePerPath = estimate.standardError ** 2 * pathsUsed;
+
+  return {
+    price: estimate,
+    confidenceInterval: confidenceInterval(estimate),
+    greeks: {
+      delta: stats.delta.estimate(),
+      gamma: stats.gamma.estimate(),
+      vega: stats.vega.estimate(),
+      rho: stats.rho.estimate()
+    },
+    estimators: {
+      delta: pathwise ? 'pathwise' : 'likelihoodRatio',
+      gamma: pathwise ? 'pathwiseLikelihoodRatio' : 'likelihoodRatio',
+      vega: pathwise ? 'pathwise' : 'likelihoodRatio',
+      rho: pathwise ? 'pathwise' : 'likelihoodRatio'
+    },
+    paths: pathsUsed,
+    varianceReduction: reportedVariancePerPath > 0 ? plain.variance / reportedVariancePerPath : 1
+  };
+}
+
+// A European vanilla or digital paying at expiry on the terminal spot.
+// Cash-or-nothing options pay `payout`; asset-or-nothing options deliver the spot.
+export function europeanProduct(inputs: PricingInputs, payout: number = 1): PathProduct {
+  const { strike: K, timeToExpiry: T, type } = inputs;
+  const sign = isCallType(type) ? 1 : -1;
+  const inTheMoney = (spot: number) => sign * (spot - K) > 0;
+
+  switch (type) {
+    case 'CashOrNothingCall':
+    case 'CashOrNothingPut':
+      return { times: [T], payoff: ([spot]) => (inTheMoney(spot) ? payout : 0) };
+    case 'AssetOrNothingCall':
+    case 'AssetOrNothingPut':
+      return { times: [T], payoff: ([spot]) => (inTheMoney(spot) ? spot : 0) };
+    default:
+      return {
+        times: [T],
+        payoff: ([spot]) => Math.max(sign * (spot - K), 0),
+        gradient: ([spot]) => [inTheMoney(spot) ? sign : 0]
+      };
+  }
+}
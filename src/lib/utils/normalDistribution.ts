@@ -0,0 +1,58 @@
+// Standard normal distribution helpers shared by every pricing model.
+
+const SQRT_TWO_PI = Math.sqrt(2 * Math.PI);
+// Beyond this many standard deviations normalCDF is exactly 0 or 1
+export const NORMAL_TAIL_LIMIT = 37;
+
+// Standard normal probability density function
+export function normalPDF(x: number): number {
+  return Math.exp(-0.5 * x * x) / SQRT_TWO_PI;
+}
+
+// Standard normal cumulative distribution function.
+// Hart's double-precision rational approximation (West, 2005), accurate to ~1e-14
+// across the whole real line, so deep in/out-of-the-money tails stay meaningful.
+export function normalCDF(x: number): number {
+  const z = Math.abs(x);
+  let tail: number;
+
+  if (z > NORMAL_TAIL_LIMIT) {
+    tail = 0;
+  } else {
+    const e = Math.exp(-z * z / 2);
+    if (z < 7.07106781186547) {
+      let n = 3.52624965998911e-2 * z + 0.700383064443688;
+      n = n * z + 6.37396220353165;
+      n = n * z + 33.912866078383;
+      n = n * z + 112.079291497871;
+      n = n * z + 221.213596169931;
+      n = n * z + 220.206867912376;
+
+      let d = 8.83883476483184e-2 * z + 1.75566716318264;
+      d = d * z + 16.064177579207;
+      d = d * z + 86.7807322029461;
+      d = d * z + 296.564248779674;
+      d = d * z + 637.333633378831;
+      d = d * z + 793.826512519948;
+      d = d * z + 440.413735824752;
+
+      tail = e * n / d;
+    } else {
+      let b = z + 0.65;
+      b = z + 4 / b;
+      b = z + 3 / b;
+      b = z + 2 / b;
+      b = z + 1 / b;
+      tail = e / b / SQRT_TWO_PI;
+    }
+  }
+
+  return x > 0 ? 1 - tail : tail;
+}
+
+// Clamp a standardised distance such as d₁ to the tails. Extreme moneyness
+// (or a vanishing σ√T) can push it to ±Infinity, where density times distance
+// terms in the Greeks become 0·∞; the clamped value gives their zero limits.
+export function clampToTails(x: number): number {
+  return Math.min(Math.max(x, -NORMAL_TAIL_LIMIT), NORMAL_TAIL_LIMIT);
+}
@@ -0,0 +1,395 @@
+import {
+  Option,
+  OptionGreeks,
+  OptionMetrics,
+  OptionType,
+  Portfolio,
+  PositionSide,
+  PricingInputs,
+  PricingModel,
+  PricingResult,
+  PricingSettings,
+  SviSurface,
+  UnderlyingType,
+  VolatilityModel
+} from '@/types/option';
+import { optionToPricingInputs, priceBlackScholes } from './blackScholes';
+import { priceBlack76, tieCarryToRate } from './black76';
+import { positionCurrency, priceGarmanKohlhagen } from './garmanKohlhagen';
+import { isDigitalType, priceDigital } from './digital';
+import { barrierProduct, priceBarrier } from './barrier';
+import { asianProduct, AsianTerms, priceAsian } from './asian';
+import { priceHeston } from './heston';
+import { priceBachelier } from './bachelier';
+import { DEFAULT_MONTE_CARLO_SETTINGS, europeanProduct, MonteCarloResult, MonteCarloSettings, simulateMonteCarlo } from './monteCarlo';
+import {
+  DEFAULT_LOCAL_VOLATILITY_SETTINGS,
+  localVolatility,
+  LocalVolatilityResult,
+  LocalVolatilitySettings,
+  simulateLocalVolatility,
+  simulationTimes
+} from './localVolatility';
+import { DEFAULT_TREE_STEPS, priceBinomialTree } from './binomialTree';
+import { priceBaroneAdesiWhaley } from './baroneAdesiWhaley';
+import {
+  DEFAULT_FINITE_DIFFERENCE_SETTINGS,
+  FiniteDifferenceGrid,
+  priceFiniteDifference,
+  solveFiniteDifferenceGrid
+} from './finiteDifference';
+import { americanForwardValue, hasZeroVariance, priceAtZeroVariance } from './zeroVariance';
+import { keyRateRhos, keyRateTenors } from './yieldCurve';
+import { defaultValuationSettings } from './dayCount';
+import { dollarGreeks, positionUnits, sumDollarGreeks, ZERO_DOLLAR_GREEKS } from './dollarGreeks';
+import { applyGreekConventions, DEFAULT_GREEK_CONVENTIONS } from './greekConventions';
+
+// The pricers never read the valuation date; PricingProvider takes a fresh one when it mounts
+export const DEFAULT_PRICING_SETTINGS: PricingSettings = {
+  model: 'binomialTree',
+  treeSteps: DEFAULT_TREE_STEPS,
+  finiteDifference: DEFAULT_FINITE_DIFFERENCE_SETTINGS,
+  volatilityModel: 'blackScholes',
+  valuation: defaultValuationSettings(),
+  greekConventions: DEFAULT_GREEK_CONVENTIONS
+};
+
+export const pricingModelLabels: Record<PricingModel, string> = {
+  blackScholes: 'European Black-Scholes',
+  baroneAdesiWhaley: 'Barone-Adesi-Whaley',
+  binomialTree: 'Binomial Tree (CRR)',
+  finiteDifference: 'Finite Difference (Crank-Nicolson)'
+};
+
+export const volatilityModelLabels: Record<VolatilityModel, string> = {
+  blackScholes: 'Black-Scholes (flat volatility)',
+  heston: 'Heston (calibrated)'
+};
+
+export const optionTypeLabels: Record<OptionType, string> = {
+  Call: 'Call',
+  Put: 'Put',
+  CashOrNothingCall: 'Cash-or-Nothing Call',
+  CashOrNothingPut: 'Cash-or-Nothing Put',
+  AssetOrNothingCall: 'Asset-or-Nothing Call',
+  AssetOrNothingPut: 'Asset-or-Nothing Put'
+};
+
+export const underlyingTypeLabels: Record<UnderlyingType, string> = {
+  equity: 'Equity',
+  future: 'Futures',
+  fx: 'FX'
+};
+
+export const positionSideLabels: Record<PositionSide, string> = {
+  long: 'Long',
+  short: 'Short'
+};
+
+export function positionSide(option: Option): PositionSide {
+  return option.quantity < 0 ? 'short' : 'long';
+}
+
+// Averaging terms of an Asian position
+function asianTerms(option: Option): AsianTerms | null {
+  if (!option.averageType || !option.fixingTimes) return null;
+  return {
+    averageType: option.averageType,
+    fixingTimes: option.fixingTimes,
+    fixingsTaken: option.fixingsTaken ?? 0,
+    fixedAverage: option.fixedAverage ?? 0
+  };
+}
+
+// Digitals, barriers and Asians are European only; early exercise applies to vanilla American positions
+function hasEarlyExercise(option: Option): boolean {
+  return option.exerciseStyle === 'American' && !isDigitalType(option.type) && !option.barrierType && !option.averageType;
+}
+
+// Positions quoted in normal volatility are priced with Bachelier; lognormal
+// models, simulations and grids don't apply to them
+function isNormalVolatility(option: Option): boolean {
+  return option.volatilityType === 'normal';
+}
+
+// Calibrated Heston values European vanilla calls and puts; every other
+// payoff, early exercise and expired positions stay on flat volatility
+function usesHeston(option: Option, settings: PricingSettings): boolean {
+  return settings.volatilityModel === 'heston' &&
+    settings.hestonParameters !== undefined &&
+    option.timeToExpiry > 0 &&
+    (option.type === 'Call' || option.type === 'Put') &&
+    !isNormalVolatility(option) &&
+    !option.barrierType &&
+    !option.averageType &&
+    !hasEarlyExercise(option);
+}
+
+// Closed-form pricer for a position's payoff on a spot underlying
+function europeanPricer(option: Option, settings: PricingSettings): (inputs: PricingInputs) => PricingResult {
+  if (isNormalVolatility(option)) {
+    return priceBachelier;
+  }
+  if (usesHeston(option, settings)) {
+    const params = settings.hestonParameters!;
+    return inputs => priceHeston(inputs, params);
+  }
+  const averaging = asianTerms(option);
+  if (averaging) {
+    return inputs => priceAsian(inputs, averaging);
+  }
+  if (option.barrierType && option.barrierLevel !== undefined) {
+    const barrier = { type: option.barrierType, level: option.barrierLevel, rebate: option.rebate ?? 0 };
+    return inputs => priceBarrier(inputs, barrier);
+  }
+  if (isDigitalType(option.type)) {
+    return inputs => priceDigital(inputs, option.cashPayout ?? 1);
+  }
+  return option.underlyingType === 'fx' ? priceGarmanKohlhagen : priceBlackScholes;
+}
+
+// Closed-form European value: Black-76 for futures options, Garman-Kohlhagen
+// for FX options, Black-Scholes-Merton otherwise, or Bachelier for any of them
+// when the position is quoted in normal volatility
+function priceEuropean(option: Option, settings: PricingSettings): PricingResult {
+  const inputs = optionToPricingInputs(option);
+  const pricer = europeanPricer(option, settings);
+  return option.underlyingType === 'future' ? priceBlack76(inputs, pricer) : pricer(inputs);
+}
+
+// Lattice values keyed by their pricing inputs and grid, so re-pricing a book
+// after an unrelated settings or what-if change skips the unchanged positions
+const LATTICE_CACHE_SIZE = 500;
+const latticeCache = new Map<string, PricingResult>();
+
+function priceLattice(inputs: PricingInputs, settings: PricingSettings): PricingResult {
+  const grid = settings.model === 'finiteDifference' ? settings.finiteDifference : settings.treeSteps;
+  const key = JSON.stringify([settings.model, grid, inputs]);
+  const cached = latticeCache.get(key);
+  if (cached) return cached;
+
+  const result = settings.model === 'finiteDifference'
+    ? priceFiniteDifference(inputs, 'American', settings.finiteDifference)
+    : priceBinomialTree(inputs, 'American', settings.treeSteps);
+  // Drop the oldest entry once full; Maps iterate in insertion order
+  if (latticeCache.size >= LATTICE_CACHE_SIZE) {
+    latticeCache.delete(latticeCache.keys().next().value!);
+  }
+  latticeCache.set(key, result);
+  return result;
+}
+
+// Route a position to its pricer. European positions use the closed-form
+// formula, or calibrated Heston for vanilla calls and puts when selected;
+// American positions use the selected model, or are valued as European under
+// plain Black-Scholes. With no variance left, early exercise is decided on the
+// deterministic forward whatever the model.
+export function priceOption(option: Option, settings: PricingSettings = DEFAULT_PRICING_SETTINGS): PricingResult {
+  if (!hasEarlyExercise(option) || settings.model === 'blackScholes') {
+    return priceEuropean(option, settings);
+  }
+
+  const inputs = optionToPricingInputs(option);
+  let result: PricingResult;
+  if (hasZeroVariance(inputs)) {
+    result = priceAtZeroVariance(inputs, americanForwardValue);
+  } else if (settings.model === 'baroneAdesiWhaley') {
+    result = priceBaroneAdesiWhaley(inputs);
+  } else {
+    result = priceLattice(inputs, settings);
+  }
+
+  // The futures carry yield is r itself, so both rate legs move together
+  return option.underlyingType === 'future' ? tieCarryToRate(result) : result;
+}
+
+// Finite-difference values of a vanilla call or put over spot and time to
+// expiry, with early exercise when the position has it. Other payoffs,
+// normal-volatility positions and those with no variance left have no grid and
+// return null.
+export function optionValueGrid(
+  option: Option,
+  settings: PricingSettings = DEFAULT_PRICING_SETTINGS
+): FiniteDifferenceGrid | null {
+  if ((option.type !== 'Call' && option.type !== 'Put') || option.barrierType || option.averageType) return null;
+  const inputs = optionToPricingInputs(option);
+  if (isNormalVolatility(option) || hasZeroVariance(inputs)) return null;
+  return solveFiniteDifferenceGrid(
+    inputs,
+    hasEarlyExercise(option) ? 'American' : 'European',
+    settings.finiteDifference
+  );
+}
+
+// Monte Carlo cross-check on a position's closed-form value. Barriers (whose
+// closed form assumes continuous monitoring), positions with early exercise,
+// normal-volatility positions and those with no variance left to simulate
+// return null. Futures and FX positions simulate with their carry yield, and
+// rho holds that yield fixed.
+export function simulateOption(
+  option: Option,
+  settings: MonteCarloSettings = DEFAULT_MONTE_CARLO_SETTINGS
+): MonteCarloResult | null {
+  if (option.barrierType || hasEarlyExercise(option) || isNormalVolatility(option)) return null;
+
+  const inputs = optionToPricingInputs(option);
+  if (hasZeroVariance(inputs)) return null;
+  const averaging = asianTerms(option);
+  const product = averaging ? asianProduct(inputs, averaging) : europeanProduct(inputs, option.cashPayout ?? 1);
+  return simulateMonteCarlo(inputs, product, settings);
+}
+
+// Price a position by Monte Carlo under the local volatility implied by a
+// fitted SVI surface, so path-dependent payoffs see the smile. Barriers are
+// monitored on the simulation dates with a continuity correction at the local
+// volatility near the barrier. Positions with early exercise, those quoted in
+// normal volatility and expired positions return null.
+export function simulateOptionLocalVolatility(
+  option: Option,
+  svi: SviSurface,
+  settings: LocalVolatilitySettings = DEFAULT_LOCAL_VOLATILITY_SETTINGS
+): LocalVolatilityResult | null {
+  if (hasEarlyExercise(option) || isNormalVolatility(option) || !(option.timeToExpiry > 0)) return null;
+
+  const inputs = optionToPricingInputs(option);
+  const averaging = asianTerms(option);
+  let product;
+  if (averaging) {
+    // The geometric-average control is priced under flat volatility, so it is dropped
+    product = { ...asianProduct(inputs, averaging), control: undefined };
+  } else if (option.barrierType && option.barrierLevel !== undefined) {
+    const barrier = { type: option.barrierType, level: option.barrierLevel, rebate: option.rebate ?? 0 };
+    const barrierVol = localVolatility(svi, barrier.level, inputs.timeToExpiry / 2);
+    product = barrierProduct(
+      { ...inputs, volatility: barrierVol },
+      barrier,
+      simulationTimes(inputs.timeToExpiry, settings.stepsPerYear)
+    );
+  } else {
+    product = europeanProduct(inputs, option.cashPayout ?? 1);
+  }
+  return simulateLocalVolatility(inputs, product, svi, settings);
+}
+
+// Calculate option price
+export function calculateOptionPrice(option: Option, settings: PricingSettings = DEFAULT_PRICING_SETTINGS): number {
+  return priceOption(option, settings).price;
+}
+
+// Calculate option Greeks in the settings' conventions
+export function calculateGreeks(option: Option, settings: PricingSettings = DEFAULT_PRICING_SETTINGS): OptionGreeks {
+  return applyGreekConventions(priceOption(option, settings).greeks, settings.greekConventions, option.spotPrice);
+}
+
+// Calculate full option metrics
+export function calculateOptionMetrics(option: Option, settings: PricingSettings = DEFAULT_PRICING_SETTINGS): OptionMetrics {
+  const { price, greeks, diagnostics } = priceOption(option, settings);
+  const units = positionUnits(option);
+  const totalValue = price * units;
+
+  const earlyExercisePremium = hasEarlyExercise(option)
+    ? Math.max(0, price - priceEuropean(option, settings).price)
+    : undefined;
+
+  const blackScholesPrice = usesHeston(option, settings)
+    ? priceEuropean(option, { ...settings, volatilityModel: 'blackScholes' }).price
+    : undefined;
+
+  return {
+    ...option,
+    price,
+    greeks: applyGreekConventions(greeks, settings.greekConventions, option.spotPrice),
+    // Dollar Greeks have fixed units of their own
+    dollarGreeks: dollarGreeks(greeks, option.spotPrice, units),
+    totalValue,
+    earlyExercisePremium,
+    blackScholesPrice,
+    diagnostics
+  };
+}
+
+// Underlying types other than equity held in a book, in display order. Their
+// deltas are against their own underlying prices and are reported separately.
+export function separateDeltaUnderlyings(options: Option[]): UnderlyingType[] {
+  return (['future', 'fx'] as UnderlyingType[]).filter(underlyingType =>
+    options.some(option => option.underlyingType === underlyingType)
+  );
+}
+
+// Aggregate portfolio metrics
+export function calculatePortfolioMetrics(options: Option[], settings: PricingSettings = DEFAULT_PRICING_SETTINGS): Portfolio {
+  const optionMetrics = options.map(option => calculateOptionMetrics(option, settings));
+
+  const totalValue = optionMetrics.reduce((sum, opt) => sum + opt.totalValue, 0);
+
+  // Written positions are worth minus their premium, so long and short
+  // exposure are kept apart as well as netted
+  const valueBySide: Portfolio['valueBySide'] = { long: 0, short: 0 };
+  const dollarDeltaBySide: Portfolio['dollarDeltaBySide'] = { long: 0, short: 0 };
+  optionMetrics.forEach(opt => {
+    valueBySide[positionSide(opt)] += opt.totalValue;
+    dollarDeltaBySide[positionSide(opt)] += opt.dollarGreeks.delta;
+  });
+
+  // FX positions are valued in their domestic currency, which doesn't add to
+  // dollars, so the book is also totalled per currency
+  const totalsByCurrency: Portfolio['totalsByCurrency'] = {};
+  optionMetrics.forEach(opt => {
+    const totals = totalsByCurrency[positionCurrency(opt)] ??= {
+      totalValue: 0,
+      valueBySide: { long: 0, short: 0 },
+      dollarDeltaBySide: { long: 0, short: 0 },
+      dollarGreeks: ZERO_DOLLAR_GREEKS
+    };
+    totals.totalValue += opt.totalValue;
+    totals.valueBySide[positionSide(opt)] += opt.totalValue;
+    totals.dollarDeltaBySide[positionSide(opt)] += opt.dollarGreeks.delta;
+    totals.dollarGreeks = sumDollarGreeks([totals.dollarGreeks, opt.dollarGreeks]);
+  });
+
+  const aggregateGreeks: OptionGreeks = {
+    delta: 0,
+    gamma: 0,
+    theta: 0,
+    vega: 0,
+    rho: 0,
+    rhoForeign: 0,
+    vanna: 0,
+    volga: 0,
+    charm: 0,
+    speed: 0,
+    color: 0,
+    zomma: 0
+  };
+
+  const deltaByUnderlying: Portfolio['deltaByUnderlying'] = {
+    equity: 0,
+    future: 0,
+    fx: 0
+  };
+
+  optionMetrics.forEach(opt => {
+    const units = positionUnits(opt);
+    Object.keys(aggregateGreeks).forEach(greek => {
+      if (greek === 'delta') return;
+      aggregateGreeks[greek as keyof OptionGreeks] +=
+        opt.greeks[greek as keyof OptionGreeks] * units;
+    });
+    // Deltas against different underlying prices don't add up
+    deltaByUnderlying[opt.underlyingType ?? 'equity'] += opt.greeks.delta * units;
+  });
+  aggregateGreeks.delta = deltaByUnderlying.equity;
+
+  return {
+    options: optionMetrics,
+    totalValue,
+    valueBySide,
+    dollarDeltaBySide,
+    aggregateGreeks,
+    deltaByUnderlying,
+    // Currency Greeks do add up across underlyings, though not across currencies
+    dollarGreeks: sumDollarGreeks(optionMetrics.map(opt => opt.dollarGreeks)),
+    totalsByCurrency,
+    keyRateRhos: keyRateRhos(optionMetrics, keyRateTenors(settings.yieldCurve))
+  };
+}
@@ -0,0 +1,33 @@
+// Seeded random numbers for Monte Carlo pricing, so a run can be reproduced.
+
+// Mulberry32: a small, fast 32-bit generator of uniforms in [0, 1)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draws by the Box-Muller transform, using both outputs of each pair
+export function createNormalSampler(random: () => number): () => number {
+  let spare: number | null = null;
+
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+
+    // 1 - u keeps the logarithm away from zero
+    const radius = Math.sqrt(-2 * Math.log(1 - random()));
+    const angle = 2 * Math.PI * random();
+    spare = radius * Math.sin(angle);
+    return radius * Math.cos(angle);
+  };
+}
@@ -0,0 +1,128 @@
+import { CalibrationMarket, SabrParameters, SabrSmile, VolSurfaceData } from '@/types/option';
+import { levenbergMarquardt } from './levenbergMarquardt';
+
+export const DEFAULT_SABR_BETA = 0.5;
+
+const MAX_CORRELATION = 0.999;
+// Below this |z| the ratio z/x(z) is replaced by its series
+const SMALL_Z = 1e-6;
+// Each expiry needs as many quotes as free parameters (α, ρ, ν)
+const MIN_QUOTES = 3;
+
+// Hagan et al. (2002) lognormal implied volatility of the SABR model
+export function sabrImpliedVolatility(forward: number, strike: number, T: number, params: SabrParameters): number {
+  const { alpha, beta, rho, nu } = params;
+  const oneMinusBeta = 1 - beta;
+  const logMoneyness = Math.log(forward / strike);
+  const geometricScale = Math.pow(forward * strike, oneMinusBeta / 2);
+
+  const z = (nu / alpha) * geometricScale * logMoneyness;
+  // z / x(z), with x(z) = ln((√(1 - 2ρz + z²) + z - ρ) / (1 - ρ))
+  const zOverX = Math.abs(z) < SMALL_Z
+    ? 1 - rho * z / 2
+    : z / Math.log((Math.sqrt(1 - 2 * rho * z + z * z) + z - rho) / (1 - rho));
+
+  const logSquared = logMoneyness * logMoneyness;
+  const denominator = geometricScale * (
+    1 + oneMinusBeta ** 2 / 24 * logSquared + oneMinusBeta ** 4 / 1920 * logSquared * logSquared
+  );
+  const timeCorrection = 1 + (
+    oneMinusBeta ** 2 / 24 * alpha * alpha / (geometricScale * geometricScale) +
+    rho * beta * nu * alpha / (4 * geometricScale) +
+    (2 - 3 * rho * rho) / 24 * nu * nu
+  ) * T;
+
+  return alpha / denominator * zOverX * timeCorrection;
+}
+
+// Fit α, ρ and ν to one expiry's smile with β held fixed; β and ρ both tilt
+// the smile, so they are not identified together from a single expiry
+export function calibrateSabrSmile(
+  strikes: number[],
+  volatilities: number[],
+  forward: number,
+  T: number,
+  beta: number = DEFAULT_SABR_BETA
+): SabrSmile {
+  const toParameters = (x: number[]): SabrParameters => ({
+    alpha: Math.exp(x[0]),
+    beta,
+    rho: Math.max(-MAX_CORRELATION, Math.min(MAX_CORRELATION, Math.tanh(x[1]))),
+    nu: Math.exp(x[2])
+  });
+
+  // ATM volatility ≈ α / F^(1-β) to leading order
+  const atmIndex = strikes.reduce((best, strike, i) =>
+    Math.abs(strike - forward) < Math.abs(strikes[best] - forward) ? i : best, 0);
+  const initial = [Math.log(volatilities[atmIndex] * Math.pow(forward, 1 - beta)), 0, Math.log(0.5)];
+
+  const residuals = (x: number[]) => {
+    const params = toParameters(x);
+    return strikes.map((strike, i) => sabrImpliedVolatility(forward, strike, T, params) - volatilities[i]);
+  };
+  const fit = levenbergMarquardt(residuals, initial);
+
+  return {
+    maturity: T,
+    forward,
+    parameters: toParameters(fit.x),
+    rmse: Math.sqrt(fit.cost / strikes.length)
+  };
+}
+
+// One SABR smile per maturity of the surface, at the forward implied by the
+// market spot and rates. Maturities with too few quotes are skipped.
+export function calibrateSabr(
+  surface: VolSurfaceData,
+  market: CalibrationMarket,
+  beta: number = DEFAULT_SABR_BETA
+): SabrSmile[] {
+  const { spot, riskFreeRate, dividendYield } = market;
+
+  const smiles = surface.maturities.flatMap((maturity, j) => {
+    const quotes = surface.strikes
+      .map((strike, i) => ({ strike, volatility: surface.volatilities[j]?.[i] }))
+      .filter(quote => quote.strike > 0 && quote.volatility > 0);
+    if (!(maturity > 0) || quotes.length < MIN_QUOTES) return [];
+
+    const forward = spot * Math.exp((riskFreeRate - dividendYield) * maturity);
+    return [calibrateSabrSmile(
+      quotes.map(quote => quote.strike),
+      quotes.map(quote => quote.volatility),
+      forward,
+      maturity,
+      beta
+    )];
+  });
+
+  if (smiles.length === 0) {
+    throw new Error(`SABR calibration needs at least ${MIN_QUOTES} volatility quotes at one maturity`);
+  }
+  return smiles;
+}
+
+// Volatility at any strike and maturity from a set of fitted smiles. Between
+// expiries total variance σ²T is interpolated linearly in time at the same
+// strike; outside them the nearest smile is used. Each smile is read at the
+// forward `forwardAt` gives to its maturity, by default the one it was fitted at.
+export function sabrVolatility(
+  smiles: SabrSmile[],
+  strike: number,
+  maturity: number,
+  forwardAt?: (maturity: number) => number
+): number {
+  const sorted = [...smiles].sort((a, b) => a.maturity - b.maturity);
+  const smileVol = (smile: SabrSmile) =>
+    sabrImpliedVolatility(forwardAt ? forwardAt(smile.maturity) : smile.forward, strike, smile.maturity, smile.parameters);
+
+  const upperIndex = sorted.findIndex(smile => smile.maturity >= maturity);
+  if (upperIndex === 0) return smileVol(sorted[0]);
+  if (upperIndex === -1) return smileVol(sorted[sorted.length - 1]);
+
+  const lower = sorted[upperIndex - 1];
+  const upper = sorted[upperIndex];
+  const lowerVariance = smileVol(lower) ** 2 * lower.maturity;
+  const upperVariance = smileVol(upper) ** 2 * upper.maturity;
+  const weight = (maturity - lower.maturity) / (upper.maturity - lower.maturity);
+  return Math.sqrt((lowerVariance + weight * (upperVariance - lowerVariance)) / maturity);
+}
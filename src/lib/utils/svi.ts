@@ -0,0 +1,300 @@
+import {
+  CalibrationMarket,
+  RawSviParameters,
+  SsviParameters,
+  SviModel,
+  SviSlice,
+  SviSurface,
+  VolSurfaceData
+} from '@/types/option';
+import { levenbergMarquardt } from './levenbergMarquardt';
+
+export const sviModelLabels: Record<SviModel, string> = {
+  raw: 'Raw SVI (per expiry)',
+  ssvi: 'SSVI (whole surface)'
+};
+
+export interface SviFitPoint {
+  strike: number;
+  maturity: number;
+  marketVol: number;
+  fittedVol: number;
+  error: number;          // fittedVol - marketVol
+}
+
+export interface SviSliceReport {
+  maturity: number;
+  rmse: number;
+  maxError: number;
+  butterflyArbitrage: boolean;  // Durrleman's density condition fails somewhere in the quoted range
+  calendarArbitrage: boolean;   // Total variance falls below the previous expiry's somewhere
+}
+
+export interface SviFitReport {
+  rmse: number;           // Over every quote, in implied volatility
+  maxError: number;
+  slices: SviSliceReport[];
+  points: SviFitPoint[];
+  skippedMaturities: number[];  // Expiries with too few quotes to fit
+}
+
+export interface SviFitResult {
+  surface: SviSurface;
+  report: SviFitReport;
+}
+
+const MAX_CORRELATION = 0.999;
+// Raw SVI has five parameters per expiry
+const MIN_RAW_QUOTES = 5;
+const MIN_SSVI_QUOTES = 3;
+const MIN_TOTAL_VARIANCE = 1e-10;
+// Log-moneyness samples used for the arbitrage checks
+const ARBITRAGE_SAMPLES = 101;
+const ARBITRAGE_TOLERANCE = 1e-9;
+
+interface SliceQuotes {
+  maturity: number;
+  forward: number;
+  strikes: number[];
+  logMoneyness: number[];
+  volatilities: number[];
+}
+
+const logistic = (x: number) => 1 / (1 + Math.exp(-x));
+const clampCorrelation = (rho: number) => Math.max(-MAX_CORRELATION, Math.min(MAX_CORRELATION, rho));
+
+// Total variance of a raw SVI slice and its first two derivatives in k
+export function sviDerivatives(k: number, params: RawSviParameters): { w: number; dw: number; d2w: number } {
+  const { a, b, rho, m, sigma } = params;
+  const shifted = k - m;
+  const root = Math.sqrt(shifted * shifted + sigma * sigma);
+  return {
+    w: a + b * (rho * shifted + root),
+    dw: b * (rho + shifted / root),
+    d2w: b * sigma * sigma / (root * root * root)
+  };
+}
+
+export function sviTotalVariance(k: number, params: RawSviParameters): number {
+  return sviDerivatives(k, params).w;
+}
+
+// SSVI's φ(θ) with the power-law form
+function ssviPhi(theta: number, params: SsviParameters): number {
+  return params.eta / (Math.pow(theta, params.gamma) * Math.pow(1 + theta, 1 - params.gamma));
+}
+
+// An SSVI slice written as raw SVI (Gatheral and Jacquier, 2014)
+function ssviToRaw(theta: number, params: SsviParameters): RawSviParameters {
+  const phi = ssviPhi(theta, params);
+  const { rho } = params;
+  return {
+    a: theta / 2 * (1 - rho * rho),
+    b: theta * phi / 2,
+    rho,
+    m: -rho / phi,
+    sigma: Math.sqrt(1 - rho * rho) / phi
+  };
+}
+
+// Implied volatility of a slice, floored so a negative fitted variance can't produce NaN
+function sliceVolatility(k: number, params: RawSviParameters, T: number): number {
+  return Math.sqrt(Math.max(sviTotalVariance(k, params), MIN_TOTAL_VARIANCE) / T);
+}
+
+// Durrleman's condition g(k) ≥ 0 is a non-negative risk-neutral density
+function hasButterflyArbitrage(params: RawSviParameters, ks: number[]): boolean {
+  return ks.some(k => {
+    const { w, dw, d2w } = sviDerivatives(k, params);
+    if (w <= 0) return true;
+    const g = (1 - k * dw / (2 * w)) ** 2 - dw * dw / 4 * (1 / w + 0.25) + d2w / 2;
+    return g < -ARBITRAGE_TOLERANCE;
+  });
+}
+
+function hasCalendarArbitrage(earlier: RawSviParameters, later: RawSviParameters, ks: number[]): boolean {
+  return ks.some(k => sviTotalVariance(k, later) < sviTotalVariance(k, earlier) - ARBITRAGE_TOLERANCE);
+}
+
+// ATM total variance from the quote closest to the forward
+function atmTotalVariance(slice: SliceQuotes): number {
+  const closest = slice.logMoneyness.reduce((best, k, i) =>
+    Math.abs(k) < Math.abs(slice.logMoneyness[best]) ? i : best, 0);
+  return slice.volatilities[closest] ** 2 * slice.maturity;
+}
+
+function fitRawSlice(slice: SliceQuotes): RawSviParameters {
+  const toParameters = (x: number[]): RawSviParameters => ({
+    a: x[0],
+    b: Math.exp(x[1]),
+    rho: clampCorrelation(Math.tanh(x[2])),
+    m: x[3],
+    sigma: Math.exp(x[4])
+  });
+
+  // A symmetric smile through the ATM variance
+  const b = 0.1;
+  const sigma = 0.1;
+  const initial = [atmTotalVariance(slice) - b * sigma, Math.log(b), 0, 0, Math.log(sigma)];
+
+  const residuals = (x: number[]) => {
+    const params = toParameters(x);
+    return slice.logMoneyness.map((k, i) => sliceVolatility(k, params, slice.maturity) - slice.volatilities[i]);
+  };
+  return toParameters(levenbergMarquardt(residuals, initial).x);
+}
+
+// Global ρ, η, γ with one ATM total variance per expiry
+function fitSsvi(slices: SliceQuotes[]): { params: SsviParameters; thetas: number[] } {
+  const toParameters = (x: number[]) => ({
+    params: {
+      rho: clampCorrelation(Math.tanh(x[0])),
+      eta: Math.exp(x[1]),
+      gamma: logistic(x[2])
+    },
+    thetas: x.slice(3).map(Math.exp)
+  });
+
+  const initial = [Math.atanh(-0.3), 0, 0, ...slices.map(slice => Math.log(atmTotalVariance(slice)))];
+
+  const residuals = (x: number[]) => {
+    const { params, thetas } = toParameters(x);
+    return slices.flatMap((slice, j) => {
+      const raw = ssviToRaw(thetas[j], params);
+      return slice.logMoneyness.map((k, i) => sliceVolatility(k, raw, slice.maturity) - slice.volatilities[i]);
+    });
+  };
+  return toParameters(levenbergMarquardt(residuals, initial).x);
+}
+
+// Fit raw SVI per expiry or SSVI to the whole surface, in implied volatility,
+// at the forwards implied by the market spot and rates. Grid points without
+// a volatility (0 or missing) are skipped, as are expiries with too few quotes.
+export function fitSviSurface(surface: VolSurfaceData, market: CalibrationMarket, model: SviModel): SviFitResult {
+  const { spot, riskFreeRate, dividendYield } = market;
+  const minQuotes = model === 'raw' ? MIN_RAW_QUOTES : MIN_SSVI_QUOTES;
+  const skippedMaturities: number[] = [];
+
+  const quotes: SliceQuotes[] = surface.maturities.flatMap((maturity, j) => {
+    const points = surface.strikes
+      .map((strike, i) => ({ strike, volatility: surface.volatilities[j]?.[i] }))
+      .filter(point => point.strike > 0 && point.volatility > 0);
+    if (!(maturity > 0) || points.length < minQuotes) {
+      skippedMaturities.push(maturity);
+      return [];
+    }
+
+    const forward = spot * Math.exp((riskFreeRate - dividendYield) * maturity);
+    return [{
+      maturity,
+      forward,
+      strikes: points.map(point => point.strike),
+      logMoneyness: points.map(point => Math.log(point.strike / forward)),
+      volatilities: points.map(point => point.volatility)
+    }];
+  }).sort((a, b) => a.maturity - b.maturity);
+
+  if (quotes.length === 0) {
+    throw new Error(`SVI fitting needs at least ${minQuotes} volatility quotes at one maturity`);
+  }
+
+  let slices: SviSlice[];
+  let ssvi: SsviParameters | undefined;
+  if (model === 'raw') {
+    slices = quotes.map(slice => ({ maturity: slice.maturity, forward: slice.forward, parameters: fitRawSlice(slice) }));
+  } else {
+    const fit = fitSsvi(quotes);
+    ssvi = fit.params;
+    slices = quotes.map((slice, j) => ({
+      maturity: slice.maturity,
+      forward: slice.forward,
+      parameters: ssviToRaw(fit.thetas[j], fit.params),
+      theta: fit.thetas[j]
+    }));
+  }
+
+  // Arbitrage is checked over the quoted log-moneyness range
+  const allK = quotes.flatMap(slice => slice.logMoneyness);
+  const minK = Math.min(...allK);
+  const maxK = Math.max(...allK);
+  const ks = Array.from({ length: ARBITRAGE_SAMPLES }, (_, i) => minK + (maxK - minK) * i / (ARBITRAGE_SAMPLES - 1));
+
+  const points: SviFitPoint[] = [];
+  const sliceReports = quotes.map((slice, j) => {
+    const params = slices[j].parameters;
+    const errors = slice.logMoneyness.map((k, i) => {
+      const fittedVol = sliceVolatility(k, params, slice.maturity);
+      const error = fittedVol - slice.volatilities[i];
+      points.push({ strike: slice.strikes[i], maturity: slice.maturity, marketVol: slice.volatilities[i], fittedVol, error });
+      return error;
+    });
+
+    return {
+      maturity: slice.maturity,
+      rmse: Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length),
+      maxError: Math.max(...errors.map(Math.abs)),
+      butterflyArbitrage: hasButterflyArbitrage(params, ks),
+      calendarArbitrage: j > 0 && hasCalendarArbitrage(slices[j - 1].parameters, params, ks)
+    };
+  });
+
+  return {
+    surface: { model, market, slices, ssvi },
+    report: {
+      rmse: Math.sqrt(points.reduce((sum, point) => sum + point.error * point.error, 0) / points.length),
+      maxError: Math.max(...points.map(point => Math.abs(point.error))),
+      slices: sliceReports,
+      points,
+      skippedMaturities
+    }
+  };
+}
+
+// Volatility at any strike and maturity from a fitted surface. Between expiries
+// total variance is interpolated linearly in time at the same log-moneyness;
+// outside them the nearest slice's volatility is used. Log-moneyness is taken
+// against the forward `forwardAt` gives, by default the fit market's.
+export function sviVolatility(
+  svi: SviSurface,
+  strike: number,
+  maturity: number,
+  forwardAt?: (maturity: number) => number
+): number {
+  const { spot, riskFreeRate, dividendYield } = svi.market;
+  const { slices } = svi;
+  const forward = forwardAt
+    ? forwardAt(Math.max(maturity, 0))
+    : spot * Math.exp((riskFreeRate - dividendYield) * Math.max(maturity, 0));
+  const k = Math.log(strike / forward);
+
+  const upperIndex = slices.findIndex(slice => slice.maturity >= maturity);
+  if (upperIndex === 0 || maturity <= 0) return sliceVolatility(k, slices[0].parameters, slices[0].maturity);
+  if (upperIndex === -1) {
+    const last = slices[slices.length - 1];
+    return sliceVolatility(k, last.parameters, last.maturity);
+  }
+
+  const lower = slices[upperIndex - 1];
+  const upper = slices[upperIndex];
+  const weight = (maturity - lower.maturity) / (upper.maturity - lower.maturity);
+  const variance = sviTotalVariance(k, lower.parameters) +
+    weight * (sviTotalVariance(k, upper.parameters) - sviTotalVariance(k, lower.parameters));
+  return Math.sqrt(Math.max(variance, MIN_TOTAL_VARIANCE) / maturity);
+}
+
+// The fitted surface sampled on a regular grid spanning the quoted strikes and maturities
+export function sampleSviSurface(svi: SviSurface, quoted: VolSurfaceData, samples: number = 30): VolSurfaceData {
+  const span = (values: number[]) => {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return Array.from({ length: samples }, (_, i) => min + (max - min) * i / (samples - 1));
+  };
+  const strikes = span(quoted.strikes);
+  const maturities = span(quoted.maturities.filter(maturity => maturity > 0));
+
+  return {
+    strikes,
+    maturities,
+    volatilities: maturities.map(maturity => strikes.map(strike => sviVolatility(svi, strike, maturity)))
+  };
+}
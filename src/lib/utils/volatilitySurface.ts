@@ -0,0 +1,98 @@
+import { Option, SurfaceInterpolation, SurfaceVolatility, VolSurfaceData } from '@/types/option';
+import { sabrVolatility } from './sabr';
+import { sviVolatility } from './svi';
+import { optionToPricingInputs } from './blackScholes';
+
+export const surfaceInterpolationLabels: Record<SurfaceInterpolation, string> = {
+  bilinear: 'Bilinear interpolation',
+  sabr: 'SABR smiles',
+  svi: 'SVI fit'
+};
+
+// Closest quoted point, in log-strike plus maturity distance
+function nearestVolatility(surface: VolSurfaceData, strike: number, maturity: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  surface.maturities.forEach((m, j) => {
+    surface.strikes.forEach((k, i) => {
+      const vol = surface.volatilities[j]?.[i];
+      const distance = Math.abs(Math.log(k / strike)) + Math.abs(m - maturity);
+      if (vol > 0 && distance < bestDistance) {
+        best = vol;
+        bestDistance = distance;
+      }
+    });
+  });
+  return best;
+}
+
+// Bilinear interpolation on the grid, flat beyond its edges. Missing grid
+// points (0) are left out and the remaining corners reweighted.
+export function interpolateVolatility(surface: VolSurfaceData, strike: number, maturity: number): number {
+  const { strikes, maturities, volatilities } = surface;
+
+  // Find nearest strike indices
+  let i1 = 0;
+  while (i1 < strikes.length - 1 && strikes[i1 + 1] <= strike) i1++;
+  const i2 = Math.min(i1 + 1, strikes.length - 1);
+
+  // Find nearest maturity indices
+  let j1 = 0;
+  while (j1 < maturities.length - 1 && maturities[j1 + 1] <= maturity) j1++;
+  const j2 = Math.min(j1 + 1, maturities.length - 1);
+
+  // Calculate weights
+  const x = Math.min(Math.max((strike - strikes[i1]) / (strikes[i2] - strikes[i1] || 1), 0), 1);
+  const y = Math.min(Math.max((maturity - maturities[j1]) / (maturities[j2] - maturities[j1] || 1), 0), 1);
+
+  const corners = [
+    { vol: volatilities[j1][i1], weight: (1 - x) * (1 - y) },
+    { vol: volatilities[j1][i2], weight: x * (1 - y) },
+    { vol: volatilities[j2][i1], weight: (1 - x) * y },
+    { vol: volatilities[j2][i2], weight: x * y }
+  ].filter(corner => corner.vol > 0);
+
+  const totalWeight = corners.reduce((sum, corner) => sum + corner.weight, 0);
+  if (totalWeight > 0) {
+    return corners.reduce((sum, corner) => sum + corner.vol * corner.weight, 0) / totalWeight;
+  }
+  // Every weighted corner is missing: fall back to the nearest quoted point
+  return nearestVolatility(surface, strike, maturity);
+}
+
+// Volatility a position with this strike and time to expiry takes from the
+// surface. The fitted smiles are read at the position's own forward when
+// `forwardAt` is given; the raw grid is sticky-strike.
+export function surfaceVolatilityAt(
+  source: SurfaceVolatility,
+  strike: number,
+  maturity: number,
+  forwardAt?: (maturity: number) => number
+): number {
+  if (source.interpolation === 'sabr' && source.smiles && source.smiles.length > 0) {
+    return sabrVolatility(source.smiles, strike, maturity, forwardAt);
+  }
+  if (source.interpolation === 'svi' && source.svi) {
+    return sviVolatility(source.svi, strike, maturity, forwardAt);
+  }
+  return interpolateVolatility(source.surface, strike, maturity);
+}
+
+// Forward of a position's underlying to any maturity, from its spot (net of
+// dividends) and carry. A futures price is its own forward.
+function positionForward(option: Option): (maturity: number) => number {
+  const { spot, riskFreeRate, dividendYield } = optionToPricingInputs(option);
+  return maturity => spot * Math.exp((riskFreeRate - dividendYield) * maturity);
+}
+
+// Positions on the surface's ticker with their volatility read off the surface
+// at their strike, time to expiry and forward. Marking happens before pricing,
+// so scenario volatility shifts still apply on top of the surface. Positions
+// on other underlyings keep their own volatility, and so do positions quoted
+// in normal volatility, since the surface is lognormal.
+export function markToSurface(options: Option[], source: SurfaceVolatility): Option[] {
+  return options.map(option => option.ticker !== source.ticker || option.volatilityType === 'normal' ? option : {
+    ...option,
+    volatility: surfaceVolatilityAt(source, option.strikePrice, option.timeToExpiry, positionForward(option))
+  });
+}
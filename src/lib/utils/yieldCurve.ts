@@ -0,0 +1,102 @@
+import { CurveShock, CurveShockType, KeyRateRho, Option, OptionMetrics, YieldCurve } from '@/types/option';
+import { positionUnits } from './dollarGreeks';
+
+export const curveShockTypeLabels: Record<CurveShockType, string> = {
+  parallel: 'Parallel',
+  steepener: 'Steepener',
+  flattener: 'Flattener',
+  keyRate: 'Key Rate'
+};
+
+// Tenors rho is bucketed to when no curve is loaded
+export const DEFAULT_KEY_RATE_TENORS = [0.25, 0.5, 1, 2, 5, 10, 30];
+
+// Steepeners and flatteners pivot between these tenors: the short end moves
+// half the shock one way and the long end half the other, linearly in between
+const SHORT_PIVOT_TENOR = 2;
+const LONG_PIVOT_TENOR = 10;
+
+// Weight of each node's zero rate in the zero rate at tenor t. Log discount
+// factors -r·t are linear in t between nodes, so r(t) = [w·rᵢtᵢ + (1 - w)·rⱼtⱼ]/t
+// with w the distance from t to tⱼ as a fraction of the interval. Interpolating
+// from a zero log discount factor today keeps the first zero rate flat to the
+// short end, and the last zero rate is held flat beyond the last node.
+export function tenorWeights(tenors: number[], t: number): number[] {
+  const weights = tenors.map(() => 0);
+  if (tenors.length === 0) return weights;
+
+  const upper = tenors.findIndex(tenor => tenor >= t);
+  if (upper <= 0) {
+    weights[upper === 0 ? 0 : tenors.length - 1] = 1;
+    return weights;
+  }
+
+  const lower = upper - 1;
+  const w = (tenors[upper] - t) / (tenors[upper] - tenors[lower]);
+  weights[lower] = w * tenors[lower] / t;
+  weights[upper] = (1 - w) * tenors[upper] / t;
+  return weights;
+}
+
+// Continuously compounded zero rate to tenor t
+export function zeroRate(curve: YieldCurve, t: number): number {
+  return tenorWeights(curve.tenors, t).reduce((sum, weight, i) => sum + weight * curve.zeroRates[i], 0);
+}
+
+export function discountFactor(curve: YieldCurve, t: number): number {
+  return Math.exp(-zeroRate(curve, t) * t);
+}
+
+// Tenors key-rate rho and key-rate shocks work on: the curve's own nodes, or
+// the default key tenors for positions on flat rates
+export function keyRateTenors(curve?: YieldCurve): number[] {
+  return curve?.tenors ?? DEFAULT_KEY_RATE_TENORS;
+}
+
+// Give each position the curve's zero rate to its expiry, so every position
+// discounts off the same curve
+export function markToCurve(options: Option[], curve: YieldCurve): Option[] {
+  return options.map(option => ({
+    ...option,
+    riskFreeRate: zeroRate(curve, option.timeToExpiry)
+  }));
+}
+
+// Zero-rate change a shock makes at tenor t. A key-rate shock bumps one key
+// tenor and fades to zero at its neighbours through the interpolation weights,
+// so it moves exactly the positions that key-rate rho buckets to that tenor.
+export function curveShockAt(shock: CurveShock, t: number, keyTenors: number[] = DEFAULT_KEY_RATE_TENORS): number {
+  switch (shock.type) {
+    case 'parallel':
+      return shock.size;
+    case 'steepener':
+    case 'flattener': {
+      const position = Math.min(Math.max((t - SHORT_PIVOT_TENOR) / (LONG_PIVOT_TENOR - SHORT_PIVOT_TENOR), 0), 1);
+      return (shock.type === 'steepener' ? 1 : -1) * shock.size * (position - 0.5);
+    }
+    case 'keyRate': {
+      const index = shock.keyTenor === undefined ? -1 : keyTenors.indexOf(shock.keyTenor);
+      return index < 0 ? 0 : shock.size * tenorWeights(keyTenors, t)[index];
+    }
+  }
+}
+
+// Move each position's rate by the shock at its expiry
+export function shockRates(options: Option[], shock: CurveShock, keyTenors: number[] = DEFAULT_KEY_RATE_TENORS): Option[] {
+  return options.map(option => ({
+    ...option,
+    riskFreeRate: option.riskFreeRate + curveShockAt(shock, option.timeToExpiry, keyTenors)
+  }));
+}
+
+// Each position's rho, times its units of the underlying, split across the key tenors by the
+// weights of those tenors in its zero rate. The buckets add up to the book's rho.
+export function keyRateRhos(options: OptionMetrics[], keyTenors: number[] = DEFAULT_KEY_RATE_TENORS): KeyRateRho[] {
+  const rhos = keyTenors.map(tenor => ({ tenor, rho: 0 }));
+  options.forEach(option => {
+    tenorWeights(keyTenors, option.timeToExpiry).forEach((weight, i) => {
+      rhos[i].rho += weight * option.greeks.rho * positionUnits(option);
+    });
+  });
+  return rhos;
+}
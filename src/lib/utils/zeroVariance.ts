@@ -0,0 +1,130 @@
+import { OptionGreeks, PricingDiagnostic, PricingInputs, PricingResult } from '@/types/option';
+import type { PathProduct } from './monteCarlo';
+
+export const pricingDiagnosticLabels: Record<PricingDiagnostic, string> = {
+  expired: 'At expiry: intrinsic value with limit Greeks',
+  zeroVolatility: 'Zero volatility: valued on the deterministic forward',
+  extremeMoneyness: 'Extreme moneyness: probabilities saturated at 0 or 1'
+};
+
+// Relative spot and absolute rate/time bumps for the forward-path Greeks
+const SPOT_BUMP = 0.001;
+const RATE_BUMP = 0.0001;
+const TIME_BUMP = 1 / 3650;
+
+export const ZERO_GREEKS: OptionGreeks = {
+  delta: 0,
+  gamma: 0,
+  theta: 0,
+  vega: 0,
+  rho: 0,
+  rhoForeign: 0,
+  vanna: 0,
+  volga: 0,
+  charm: 0,
+  speed: 0,
+  color: 0,
+  zomma: 0
+};
+
+// No variance is left before expiry when the option has expired or its
+// volatility is zero. The underlying then follows its forward S·e^((r - q)t)
+// with certainty, and σ√T in the closed forms divides by zero.
+export function hasZeroVariance({ timeToExpiry, volatility }: PricingInputs): boolean {
+  return !(volatility * Math.sqrt(Math.max(timeToExpiry, 0)) > 0);
+}
+
+// The limit a zero-variance result stands for
+export function zeroVarianceDiagnostic({ timeToExpiry }: PricingInputs): PricingDiagnostic {
+  return timeToExpiry > 0 ? 'zeroVolatility' : 'expired';
+}
+
+// Union of the diagnostics of results combined into one, or undefined if none
+export function combineDiagnostics(...results: PricingResult[]): PricingDiagnostic[] | undefined {
+  const diagnostics = Array.from(new Set(results.flatMap(result => result.diagnostics ?? [])));
+  return diagnostics.length > 0 ? diagnostics : undefined;
+}
+
+// A European call or put with no variance left is worth its discounted forward
+// intrinsic value max(η(S·e^(-qT) - K·e^(-rT)), 0). Delta steps from 0 to
+// η·e^(-qT) as the forward crosses the strike, taking half of it at F = K.
+// Theta and the rhos are the carry of the in-the-money forward, vega is its
+// σ → 0 limit (nonzero only at the money) and the curvature Greeks are zero.
+// At expiry the Greeks are the limits as T → 0 from above.
+export function priceVanillaAtZeroVariance(inputs: PricingInputs): PricingResult {
+  const { spot: S, strike: K, riskFreeRate: r, dividendYield: q, type } = inputs;
+  const T = Math.max(inputs.timeToExpiry, 0);
+  const sign = type === 'Call' ? 1 : -1;
+
+  const discountFactor = Math.exp(-r * T);
+  const dividendFactor = Math.exp(-q * T);
+  const moneyness = sign * (S * dividendFactor - K * discountFactor);
+  const weight = moneyness > 0 ? 1 : moneyness === 0 ? 0.5 : 0;
+
+  return {
+    price: Math.max(moneyness, 0),
+    greeks: {
+      ...ZERO_GREEKS,
+      delta: weight * sign * dividendFactor,
+      theta: weight * sign * (q * S * dividendFactor - r * K * discountFactor),
+      vega: moneyness === 0 ? S * dividendFactor * Math.sqrt(T / (2 * Math.PI)) : 0,
+      rho: weight * sign * K * T * discountFactor,
+      rhoForeign: -weight * sign * S * T * dividendFactor
+    },
+    diagnostics: [zeroVarianceDiagnostic(inputs)]
+  };
+}
+
+// Value of a path product on the forward path: its payoff on S·e^((r - q)t)
+// at the product's dates, discounted from expiry
+export function forwardPathValue(inputs: PricingInputs, product: PathProduct): number {
+  const { spot: S, riskFreeRate: r, dividendYield: q } = inputs;
+  const T = Math.max(inputs.timeToExpiry, 0);
+  return Math.exp(-r * T) * product.payoff(product.times.map(t => S * Math.exp((r - q) * t)));
+}
+
+// Best value of exercising a vanilla American option on the forward path.
+// Exercising at t is worth η(S·e^(-qt) - K·e^(-rt)) today, which is monotone
+// in t or has a single turning point where e^((r - q)t) = rK/(qS), so the
+// optimum is at now, at expiry or at that point.
+export function americanForwardValue(inputs: PricingInputs): number {
+  const { spot: S, strike: K, riskFreeRate: r, dividendYield: q, type } = inputs;
+  const T = Math.max(inputs.timeToExpiry, 0);
+  const sign = type === 'Call' ? 1 : -1;
+  const exerciseValue = (t: number) => sign * (S * Math.exp(-q * t) - K * Math.exp(-r * t));
+
+  const candidates = [0, T];
+  const turningPoint = Math.log((r * K) / (q * S)) / (r - q);
+  if (turningPoint > 0 && turningPoint < T) candidates.push(turningPoint);
+  return Math.max(0, ...candidates.map(exerciseValue));
+}
+
+// Price any payoff with no variance left from its value on the forward path.
+// Delta, theta and the rhos are finite differences of that value; there is no
+// randomness for volatility or curvature to act on, so the other Greeks are
+// zero. Theta looks forward from expiry, giving the limit as T → 0.
+export function priceAtZeroVariance(
+  inputs: PricingInputs,
+  value: (inputs: PricingInputs) => number
+): PricingResult {
+  const { spot: S, riskFreeRate: r, dividendYield: q, timeToExpiry: T } = inputs;
+  const at = (changes: Partial<PricingInputs>) => value({ ...inputs, ...changes });
+
+  const price = value(inputs);
+  const dS = S * SPOT_BUMP;
+  const theta = T >= TIME_BUMP
+    ? (at({ timeToExpiry: T - TIME_BUMP }) - price) / TIME_BUMP
+    : (price - at({ timeToExpiry: Math.max(T, 0) + TIME_BUMP })) / TIME_BUMP;
+
+  return {
+    price,
+    greeks: {
+      ...ZERO_GREEKS,
+      delta: (at({ spot: S + dS }) - at({ spot: S - dS })) / (2 * dS),
+      theta,
+      rho: (at({ riskFreeRate: r + RATE_BUMP }) - at({ riskFreeRate: r - RATE_BUMP })) / (2 * RATE_BUMP),
+      rhoForeign: (at({ dividendYield: q + RATE_BUMP }) - at({ dividendYield: q - RATE_BUMP })) / (2 * RATE_BUMP)
+    },
+    diagnostics: [zeroVarianceDiagnostic(inputs)]
+  };
+}
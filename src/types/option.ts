@@ -1,14 +1,226 @@
-export type OptionType = 'Call' | 'Put';
+// Vanilla calls and puts, plus European digitals paying a fixed cash amount
+// or the underlying when they finish in the money
+export type OptionType =
+  | 'Call'
+  | 'Put'
+  | 'CashOrNothingCall'
+  | 'CashOrNothingPut'
+  | 'AssetOrNothingCall'
+  | 'AssetOrNothingPut';
+
+export type ExerciseStyle = 'European' | 'American';
+
+// What the option is written on. Futures options are priced with Black-76 and
+// FX options with Garman-Kohlhagen; their deltas are against the futures price
+// or exchange rate respectively.
+export type UnderlyingType = 'equity' | 'future' | 'fx';
+
+// Single-barrier options, continuously monitored
+export type BarrierType = 'downAndIn' | 'downAndOut' | 'upAndIn' | 'upAndOut';
+
+// Arithmetic-average (Asian) options: the average replaces either the strike's
+// reference spot (average price) or the strike itself (average strike)
+export type AverageType = 'price' | 'strike';
+
+// How an FX option premium is quoted
+export type FXPremiumQuote = 'pips' | 'percentForeign' | 'domestic';
+
+// Model used to value positions across the dashboard. European positions are
+// always priced in closed form; the model decides how early exercise is handled.
+export type PricingModel = 'blackScholes' | 'baroneAdesiWhaley' | 'binomialTree' | 'finiteDifference';
+
+// Conditions at the edges of the finite-difference spot grid: the option's
+// asymptotic values, or zero gamma
+export type FiniteDifferenceBoundary = 'dirichlet' | 'linearity';
+
+export interface FiniteDifferenceSettings {
+  spotSteps: number;      // Intervals in the spot grid
+  timeSteps: number;      // Crank-Nicolson time steps
+  spotRange: number;      // Standard deviations of log-spot the grid spans above the spot or strike
+  boundary: FiniteDifferenceBoundary;
+}
+
+// How a position's volatility is quoted: lognormal for the Black-Scholes family,
+// or normal (Bachelier) for underlyings such as spreads and rates that can go negative
+export type VolatilityType = 'lognormal' | 'normal';
+
+// Volatility dynamics for European vanilla positions: flat Black-Scholes
+// volatility, or Heston stochastic volatility with calibrated parameters
+export type VolatilityModel = 'blackScholes' | 'heston';
+
+export interface HestonParameters {
+  kappa: number;          // κ: Mean-reversion speed of the variance
+  theta: number;          // θ: Long-run variance
+  xi: number;             // ξ: Volatility of variance
+  rho: number;            // ρ: Correlation between spot and variance shocks
+  v0: number;             // Current variance
+}
+
+// SABR smile at one expiry: dF = α·F^β·dW₁, dα = ν·α·dW₂, dW₁·dW₂ = ρ·dt
+export interface SabrParameters {
+  alpha: number;          // α: Initial volatility level
+  beta: number;           // β: CEV exponent, 0 (normal) to 1 (lognormal)
+  rho: number;            // ρ: Correlation between forward and volatility shocks
+  nu: number;             // ν: Volatility of volatility
+}
+
+export interface SabrSmile {
+  maturity: number;
+  forward: number;        // Forward the smile was fitted at
+  parameters: SabrParameters;
+  rmse: number;           // Root-mean-square implied volatility error of the fit
+}
+
+// SVI smile at one expiry, in total variance w = σ²T against log-moneyness k = ln(K/F):
+// w(k) = a + b·(ρ(k - m) + √((k - m)² + σ²))
+export interface RawSviParameters {
+  a: number;              // Variance level
+  b: number;              // Slope of the wings
+  rho: number;            // Skew, between -1 and 1
+  m: number;              // Horizontal shift of the smile
+  sigma: number;          // ATM curvature
+}
+
+// Global SSVI parameters; each expiry adds its ATM total variance θ and
+// φ(θ) = η / (θ^γ·(1 + θ)^(1-γ))
+export interface SsviParameters {
+  rho: number;
+  eta: number;
+  gamma: number;
+}
+
+// Raw SVI fits each expiry on its own; SSVI fits the whole surface at once
+export type SviModel = 'raw' | 'ssvi';
+
+export interface SviSlice {
+  maturity: number;
+  forward: number;
+  parameters: RawSviParameters; // SSVI slices are stored in their raw form
+  theta?: number;               // ATM total variance, for SSVI slices
+}
+
+export interface SviSurface {
+  model: SviModel;
+  market: CalibrationMarket;
+  slices: SviSlice[];
+  ssvi?: SsviParameters;
+}
+
+// How a volatility is read off an uploaded surface
+export type SurfaceInterpolation = 'bilinear' | 'sabr' | 'svi';
+
+// Implied volatility grid, volatilities[maturity][strike]
+export interface VolSurfaceData {
+  strikes: number[];
+  maturities: number[];
+  volatilities: number[][];
+}
+
+// Spot and rates a volatility surface was quoted against
+export interface CalibrationMarket {
+  spot: number;
+  riskFreeRate: number;
+  dividendYield: number;
+}
+
+// A surface positions take their volatility from, by strike and time to expiry
+export interface SurfaceVolatility {
+  ticker: string;         // Underlying the surface was quoted on; only its positions are marked
+  interpolation: SurfaceInterpolation;
+  surface: VolSurfaceData;
+  smiles?: SabrSmile[];   // Fitted smiles, used when interpolation is 'sabr'
+  svi?: SviSurface;       // Fitted surface, used when interpolation is 'svi'
+}
+
+// Continuously compounded zero rates by tenor in years, tenors ascending
+export interface YieldCurve {
+  tenors: number[];
+  zeroRates: number[];
+}
+
+// How a rate stress moves the zero curve
+export type CurveShockType = 'parallel' | 'steepener' | 'flattener' | 'keyRate';
+
+export interface CurveShock {
+  type: CurveShockType;
+  size: number;           // Decimal rate change; for steepeners and flatteners, the change in the long-short spread
+  keyTenor?: number;      // Bumped tenor of a key-rate shock
+}
+
+// Year-fraction convention for times to expiry: calendar days over 365 or 360,
+// or business days over 252
+export type DayCount = 'act365' | 'act360' | 'business252';
+
+// The date positions are valued on and how time to their expiry is counted
+export interface ValuationSettings {
+  date: string;           // Valuation date (YYYY-MM-DD)
+  dayCount: DayCount;
+  holidays: string[];     // Non-business days besides weekends (YYYY-MM-DD)
+}
+
+// Units the Greeks are reported in: theta per year or per calendar or trading
+// day, vega and rho per 1.00 or per 1%, gamma per point or per 1% move
+export type ThetaUnit = 'year' | 'calendarDay' | 'tradingDay';
+export type SensitivityUnit = 'unit' | 'percent';
+export type GammaUnit = 'point' | 'percent';
+
+export interface GreekConventions {
+  theta: ThetaUnit;
+  vega: SensitivityUnit;
+  rho: SensitivityUnit;   // Also foreign rho
+  gamma: GammaUnit;
+}
+
+export interface PricingSettings {
+  model: PricingModel;
+  treeSteps: number;      // Time steps used by the binomial tree
+  finiteDifference: FiniteDifferenceSettings; // Grid used by the finite-difference model
+  volatilityModel: VolatilityModel;
+  hestonParameters?: HestonParameters; // Used when volatilityModel is 'heston'
+  surfaceVolatility?: SurfaceVolatility; // When set, positions are marked to this surface before pricing
+  yieldCurve?: YieldCurve; // When set, positions take their rate from this curve at expiry
+  valuation: ValuationSettings; // Dated expiries and ex-dates are counted from here
+  greekConventions: GreekConventions; // Units of the Greeks in metrics and portfolios
+}
+
+export interface CashDividend {
+  exDate: string;         // Ex-dividend date (YYYY-MM-DD)
+  timeToExDate: number;   // Years from the valuation date to the ex-date
+  amount: number;         // Cash amount per share
+}
+
+// Discrete cash dividends keyed by ticker
+export type DividendSchedule = Record<string, CashDividend[]>;
 
 export interface Option {
   ticker: string;
   type: OptionType;
-  spotPrice: number;      // S: Current stock price
+  spotPrice: number;      // S: Current stock price (futures price or exchange rate for futures/FX options)
   strikePrice: number;    // K: Strike price
   timeToExpiry: number;   // T: Time to expiration in years
-  volatility: number;     // σ: Volatility
-  riskFreeRate: number;   // r: Risk-free interest rate
-  quantity: number;       // Number of contracts
+  expiryDate?: string;    // Expiry date (YYYY-MM-DD); when set, T is counted from the valuation date
+  volatility: number;     // σ: Volatility (in price units per √year for normal volatility)
+  riskFreeRate: number;   // r: Risk-free interest rate (domestic rate for FX options)
+  quantity: number;       // Number of contracts, negative when short (foreign notional for FX options)
+  multiplier?: number;    // Units of the underlying per contract (defaults to 100, or 1 for FX options)
+  dividendYield?: number; // q: Continuous dividend yield (defaults to 0)
+  dividends?: CashDividend[]; // Discrete cash dividends (escrowed dividend model)
+  exerciseStyle?: ExerciseStyle; // Defaults to European
+  underlyingType?: UnderlyingType; // Defaults to equity
+  volatilityType?: VolatilityType; // Defaults to lognormal; normal prices with Bachelier
+  barrierType?: BarrierType; // Makes a vanilla call/put a single-barrier option
+  barrierLevel?: number;  // H: Barrier level, in the same units as spotPrice
+  rebate?: number;        // Paid at the hit for knock-outs, at expiry for unexercised knock-ins (defaults to 0)
+  cashPayout?: number;    // Cash-or-nothing digitals: amount paid in the money (defaults to 1)
+  averageType?: AverageType; // Makes a vanilla call/put an arithmetic-average option
+  fixingTimes?: number[]; // Years from the valuation date to each remaining averaging fixing
+  fixingsTaken?: number;  // Fixings already set (defaults to 0)
+  fixedAverage?: number;  // Average of the fixings already set
+  fixingsAsOf?: string;   // Date a dated position's fixingTimes are counted from (YYYY-MM-DD)
+  currencyPair?: string;  // FX options: foreign then domestic currency, e.g. EURUSD
+  foreignRate?: number;   // r_f: Foreign risk-free rate for FX options
+  marketPrice?: number;   // Quoted option price; σ is implied from it at import
+  impliedVolError?: string; // Why the implied volatility solve failed, if it did
 }
 
 export interface OptionGreeks {
@@ -17,16 +229,98 @@ export interface OptionGreeks {
   theta: number;
   vega: number;
   rho: number;
+  rhoForeign: number;     // ∂V/∂q: foreign-rate rho for FX, dividend yield sensitivity otherwise
+  vanna: number;          // ∂Δ/∂σ
+  volga: number;          // ∂ν/∂σ
+  charm: number;          // ∂Δ/∂t, change in delta as time passes
+  speed: number;          // ∂Γ/∂S
+  color: number;          // ∂Γ/∂t, change in gamma as time passes
+  zomma: number;          // ∂Γ/∂σ
 }
 
-export interface OptionMetrics extends Option {
+// Model-agnostic pricing inputs that every entry point (portfolio positions,
+// simulator sliders, calculator form) resolves to before pricing
+export interface PricingInputs {
+  type: OptionType;
+  spot: number;           // S
+  strike: number;         // K
+  timeToExpiry: number;   // T in years
+  volatility: number;     // σ
+  riskFreeRate: number;   // r
+  dividendYield: number;  // q
+}
+
+// Why a result is a limit rather than the model's own value: the option is at
+// or past expiry, its volatility is zero, or it is so far in or out of the
+// money that the normal distribution has saturated
+export type PricingDiagnostic = 'expired' | 'zeroVolatility' | 'extremeMoneyness';
+
+export interface PricingResult {
   price: number;
   greeks: OptionGreeks;
-  totalValue: number;     // price * quantity
+  diagnostics?: PricingDiagnostic[]; // Set when the numbers had to be degraded
+}
+
+export interface BlackScholesResult extends PricingResult {
+  d1: number;
+  d2: number;
+}
+
+// Position Greeks in currency: delta as the equivalent underlying position,
+// gamma as its change for a 1% move, vega per vol point, theta per calendar day
+export interface DollarGreeks {
+  delta: number;
+  gamma: number;
+  vega: number;
+  theta: number;
+}
+
+export interface OptionMetrics extends Option {
+  price: number;
+  greeks: OptionGreeks;   // Per unit of the underlying, in the settings' Greek conventions
+  dollarGreeks: DollarGreeks; // For the whole position
+  totalValue: number;     // price * quantity * multiplier
+  earlyExercisePremium?: number; // American price minus European price
+  blackScholesPrice?: number; // Flat-volatility value, when a stochastic volatility model priced the position
+  diagnostics?: PricingDiagnostic[];
+}
+
+// Bought positions hold a positive quantity, written ones a negative quantity
+export type PositionSide = 'long' | 'short';
+
+// Value and currency Greeks of the positions settled in one currency
+export interface CurrencyTotals {
+  totalValue: number;     // Net of short positions
+  valueBySide: Record<PositionSide, number>;
+  dollarDeltaBySide: Record<PositionSide, number>;
+  dollarGreeks: DollarGreeks;
 }
 
 export interface Portfolio {
   options: OptionMetrics[];
-  totalValue: number;
-  aggregateGreeks: OptionGreeks;
-} 
\ No newline at end of file
+  totalValue: number;     // Net of short positions, as a plain sum across currencies
+  valueBySide: Record<PositionSide, number>; // Long and short position values, netting to totalValue
+  dollarDeltaBySide: Record<PositionSide, number>; // Dollar delta of long and of short positions
+  aggregateGreeks: OptionGreeks; // In units of the underlying and the Greek conventions; delta covers equity underlyings only
+  deltaByUnderlying: Record<UnderlyingType, number>; // Net delta per underlying type
+  dollarGreeks: DollarGreeks; // Summed across every underlying, as a plain sum across currencies
+  totalsByCurrency: Record<string, CurrencyTotals>; // Per settlement currency, USD for all but FX positions
+  keyRateRhos: KeyRateRho[]; // Rho bucketed to the key tenors, summing to the aggregate rho
+}
+
+// Sensitivity to the zero rate at one key tenor, the others held fixed
+export interface KeyRateRho {
+  tenor: number;
+  rho: number;
+}
+
+export interface StressTestResults {
+  spotPriceChange: number;
+  volatilityChange: number;
+  rateChange: number;     // Size of the curve shock, in percent
+  curveShock: CurveShockType;
+  keyRateTenor?: number;  // Bumped tenor when curveShock is 'keyRate'
+  dividendYieldChange: number;
+  foreignRateChange: number;
+  stressedPortfolio: Portfolio;
+}